@@ -8,7 +8,7 @@ import AppNavigator from '@/navigation/AppNavigator';
 
 // Main app component that handles authentication state
 const AppContent: React.FC = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isVaultUnlocked, isLoading } = useAuth();
 
   // Show loading spinner while checking auth state
   if (isLoading) {
@@ -19,7 +19,12 @@ const AppContent: React.FC = () => {
     );
   }
 
-  return <AppNavigator isAuthenticated={isAuthenticated} />;
+  return (
+    <AppNavigator
+      isAuthenticated={isAuthenticated}
+      isVaultUnlocked={isVaultUnlocked}
+    />
+  );
 };
 
 // Root app component with providers
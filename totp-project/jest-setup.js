@@ -27,6 +27,7 @@ jest.mock('expo-crypto', () => ({
     return array;
   }),
   digestStringAsync: jest.fn(() => Promise.resolve('mocked-hash')),
+  randomUUID: jest.fn(() => require('crypto').randomUUID()),
 }));
 
 // Mock Firebase
@@ -11,7 +11,27 @@ import {
   Platform,
 } from 'react-native';
 import { TOTPService } from '@/services/TOTPService';
-import { LocalTOTPAccount } from '@/types';
+import {
+  CodeEncoder,
+  LocalTOTPAccount,
+  OCRASuite,
+  OTPType,
+  SecretEncoding,
+  TOTPParameters,
+} from '@/types';
+import { TOTP_CONFIG } from '@/utils/constants';
+
+const SECRET_ENCODING_LABELS: Record<SecretEncoding, string> = {
+  base32: 'Base32',
+  hex: 'Hex',
+  base64: 'Base64',
+};
+
+// Yandex Key and mOTP codes always use these parameters
+const PIN_TYPE_DEFAULTS: Partial<Record<OTPType, { digits: number; period: number }>> = {
+  yandex: { digits: 8, period: 30 },
+  motp: { digits: 6, period: 10 },
+};
 
 interface AddAccountFormProps {
   onSave: (account: Omit<LocalTOTPAccount, 'id' | 'lastModified' | 'syncStatus'>) => void;
@@ -27,14 +47,49 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
   const [serviceName, setServiceName] = useState(initialData?.serviceName || '');
   const [accountName, setAccountName] = useState(initialData?.accountName || '');
   const [secret, setSecret] = useState(initialData?.secret || '');
+  const [secretEncoding, setSecretEncoding] = useState<SecretEncoding | 'auto'>('auto');
   const [algorithm, setAlgorithm] = useState<'SHA1' | 'SHA256' | 'SHA512'>(
     (initialData?.algorithm as any) || 'SHA1'
   );
   const [digits, setDigits] = useState<6 | 7 | 8>((initialData?.digits as any) || 6);
   const [period, setPeriod] = useState(initialData?.period?.toString() || '30');
+  const [type, setType] = useState<OTPType>(initialData?.type || 'totp');
+  const [counter, setCounter] = useState(initialData?.counter?.toString() || '0');
+  const [encoder, setEncoder] = useState<CodeEncoder>(initialData?.encoder || 'default');
+  const [pin, setPin] = useState(initialData?.pin || '');
+  const [ocraSuite, setOcraSuite] = useState(initialData?.ocraSuite || '');
+  const [timeOffset, setTimeOffset] = useState(
+    initialData?.timeOffsetSeconds?.toString() || '0'
+  );
+  const [acceptedCode, setAcceptedCode] = useState('');
+  const [observedCode, setObservedCode] = useState('');
+  const [nextObservedCode, setNextObservedCode] = useState('');
   const [isValidatingSecret, setIsValidatingSecret] = useState(false);
 
   const totpService = TOTPService.getInstance();
+  const pinDefaults = PIN_TYPE_DEFAULTS[type];
+
+  // The suite string is typed by hand, so parse failures are expected here
+  const parseSuite = (suite: string): OCRASuite | null => {
+    try {
+      return totpService.parseOCRASuite(suite);
+    } catch {
+      return null;
+    }
+  };
+
+  const parsedSuite = type === 'ocra' ? parseSuite(ocraSuite) : null;
+  const usesCounter = type === 'hotp' || !!parsedSuite?.counter;
+
+  // mOTP secrets are hex strings used as text, so they are kept as typed
+  const normalizedSecret =
+    type === 'motp' || !secret.trim()
+      ? null
+      : totpService.normalizeSecret(secret, secretEncoding);
+  const cleanSecret = normalizedSecret?.data?.secret ?? secret.trim();
+  const isTimeBased =
+    type !== 'hotp' && (type !== 'ocra' || parsedSuite?.timeStep !== undefined);
+  const timeOffsetSeconds = isTimeBased ? Number(timeOffset) || 0 : 0;
 
   const validateForm = (): boolean => {
     if (!serviceName.trim()) {
@@ -52,17 +107,58 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
       return false;
     }
 
-    if (!totpService.validateSecret(secret.trim())) {
+    // Secrets saved before encodings were checked stay editable
+    if (normalizedSecret && !normalizedSecret.success && secret !== initialData?.secret) {
+      Alert.alert('Error', normalizedSecret.message || 'Invalid secret key');
+      return false;
+    }
+
+    if (!totpService.validateSecret(cleanSecret, type)) {
       Alert.alert('Error', 'Invalid secret key. Please check the key format.');
       return false;
     }
 
-    const periodNum = parseInt(period);
-    if (isNaN(periodNum) || periodNum < 1 || periodNum > 300) {
-      Alert.alert('Error', 'Period must be between 1 and 300 seconds');
+    if (type === 'ocra' && !parsedSuite) {
+      try {
+        totpService.parseOCRASuite(ocraSuite);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Invalid OCRA suite');
+      }
       return false;
     }
 
+    if (pinDefaults || (parsedSuite?.pinHash && pin)) {
+      if (!totpService.validatePin(pin)) {
+        Alert.alert('Error', 'PIN must be 4 to 16 digits');
+        return false;
+      }
+    }
+
+    if (usesCounter) {
+      const counterNum = Number(counter);
+      if (!Number.isSafeInteger(counterNum) || counterNum < 0) {
+        Alert.alert('Error', 'Counter must be a whole number of 0 or more');
+        return false;
+      }
+    } else if (!pinDefaults && type !== 'ocra') {
+      const periodNum = parseInt(period);
+      if (isNaN(periodNum) || periodNum < 1 || periodNum > 300) {
+        Alert.alert('Error', 'Period must be between 1 and 300 seconds');
+        return false;
+      }
+    }
+
+    if (isTimeBased) {
+      const offsetNum = Number(timeOffset);
+      if (!Number.isInteger(offsetNum) || Math.abs(offsetNum) > TOTP_CONFIG.MAX_TIME_OFFSET) {
+        Alert.alert(
+          'Error',
+          `Time offset must be a whole number of seconds between -${TOTP_CONFIG.MAX_TIME_OFFSET} and ${TOTP_CONFIG.MAX_TIME_OFFSET}`
+        );
+        return false;
+      }
+    }
+
     return true;
   };
 
@@ -72,11 +168,7 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
     try {
       // Test TOTP generation to ensure the secret works
       setIsValidatingSecret(true);
-      const testCode = totpService.generateTOTP(secret.trim(), {
-        algorithm,
-        digits,
-        period: parseInt(period),
-      });
+      const testCode = generateTestCode();
 
       if (!testCode) {
         throw new Error('Failed to generate TOTP code');
@@ -85,11 +177,17 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
       const accountData: Omit<LocalTOTPAccount, 'id' | 'lastModified' | 'syncStatus'> = {
         serviceName: serviceName.trim(),
         accountName: accountName.trim(),
-        secret: secret.trim(),
-        algorithm,
-        digits,
-        period: parseInt(period),
-        iconUrl: undefined,
+        secret: cleanSecret,
+        pin: pinDefaults || parsedSuite?.pinHash ? pin.trim() || undefined : undefined,
+        algorithm: parsedSuite?.algorithm ?? algorithm,
+        digits: pinDefaults?.digits ?? parsedSuite?.digits ?? digits,
+        period: pinDefaults?.period ?? (parseInt(period) || 30),
+        iconUrl: initialData?.iconUrl,
+        type,
+        counter: usesCounter ? Number(counter) : undefined,
+        encoder: encoder === 'default' || pinDefaults || parsedSuite ? undefined : encoder,
+        ocraSuite: parsedSuite?.suite,
+        timeOffsetSeconds: timeOffsetSeconds || undefined,
       };
 
       onSave(accountData);
@@ -100,18 +198,126 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
     }
   };
 
-  const testSecret = () => {
-    if (!secret.trim()) {
-      Alert.alert('Error', 'Please enter a secret key first');
+  // Preview a code without advancing the HOTP counter
+  const generateTestCode = (): string => {
+    if (parsedSuite) {
+      // Any 4 digits are a valid challenge in every challenge format
+      return totpService.generateOCRA(cleanSecret, parsedSuite.suite, {
+        challenge: '1234',
+        counter: Number(counter) || 0,
+        pin: pin || '0000',
+      });
+    }
+    if (type === 'hotp') {
+      return totpService.generateHOTP(cleanSecret, Number(counter) || 0, {
+        algorithm,
+        digits,
+        encoder,
+      });
+    }
+    return totpService.generateAccountCode({
+      secret: cleanSecret,
+      pin,
+      type,
+      algorithm,
+      digits: pinDefaults?.digits ?? digits,
+      period: pinDefaults?.period ?? (parseInt(period) || 30),
+      encoder,
+      timeOffsetSeconds,
+    });
+  };
+
+  // Find the offset at which a code the server accepted would be current
+  const suggestOffset = () => {
+    if (!secret.trim() || !acceptedCode.trim()) {
+      Alert.alert('Error', 'Enter the secret key and a code the server accepted');
       return;
     }
 
+    let suggestion: number | null;
     try {
-      const testCode = totpService.generateTOTP(secret.trim(), {
+      suggestion = totpService.suggestTimeOffset(acceptedCode, cleanSecret, {
         algorithm,
         digits,
         period: parseInt(period) || 30,
+        encoder,
       });
+    } catch (error) {
+      Alert.alert('Error', 'Invalid secret key or settings');
+      return;
+    }
+
+    if (suggestion === null) {
+      Alert.alert(
+        'Not Found',
+        `This code does not match any time within ${TOTP_CONFIG.MAX_TIME_OFFSET / 60} minutes of now. Check the code and the settings above.`
+      );
+      return;
+    }
+
+    setTimeOffset(suggestion.toString());
+    setAcceptedCode('');
+    Alert.alert('Offset Found', `Time offset set to ${suggestion} seconds`);
+  };
+
+  const describeParameters = (match: TOTPParameters): string =>
+    `${match.algorithm}, ${match.digits} digits, ${match.period}s`;
+
+  // Work out algorithm, digits and period from codes shown by another app
+  const detectSettings = () => {
+    if (!secret.trim() || !observedCode.trim()) {
+      Alert.alert('Error', 'Enter the secret key and the code your other app shows');
+      return;
+    }
+
+    let matches: TOTPParameters[];
+    try {
+      matches = totpService.detectTOTPParameters(
+        cleanSecret,
+        nextObservedCode.trim()
+          ? [observedCode, nextObservedCode]
+          : [observedCode]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Invalid secret key');
+      return;
+    }
+
+    if (matches.length === 0) {
+      Alert.alert(
+        'Not Found',
+        'No supported settings produce this code. Check the secret key, make sure the code is current and that your device clock is correct.'
+      );
+      return;
+    }
+
+    if (matches.length > 1) {
+      Alert.alert(
+        'Several Matches',
+        `These settings all produce this code:\n${matches
+          .map(describeParameters)
+          .join('\n')}\n\nEnter the code that follows it as well to narrow it down.`
+      );
+      return;
+    }
+
+    const [match] = matches;
+    setAlgorithm(match.algorithm);
+    setDigits(match.digits);
+    setPeriod(match.period.toString());
+    setObservedCode('');
+    setNextObservedCode('');
+    Alert.alert('Settings Detected', describeParameters(match));
+  };
+
+  const testSecret = () => {
+    if (!secret.trim()) {
+      Alert.alert('Error', 'Please enter a secret key first');
+      return;
+    }
+
+    try {
+      const testCode = generateTestCode();
       Alert.alert('Test Successful', `Generated code: ${testCode}`);
     } catch (error) {
       Alert.alert('Test Failed', 'Invalid secret key or settings');
@@ -162,78 +368,322 @@ export const AddAccountForm: React.FC<AddAccountFormProps> = ({
               onChangeText={setSecret}
               placeholder="Enter the secret key"
               placeholderTextColor="#999"
-              autoCapitalize="characters"
+              autoCapitalize="none"
               autoCorrect={false}
               multiline={true}
               numberOfLines={3}
               textAlignVertical="top"
             />
+            {type !== 'motp' && (
+              <>
+                <View style={[styles.buttonGroup, styles.encodingGroup]}>
+                  {(['auto', 'base32', 'hex', 'base64'] as const).map((value) => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[
+                        styles.optionButton,
+                        secretEncoding === value && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setSecretEncoding(value)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          secretEncoding === value && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {value === 'auto' ? 'Auto' : SECRET_ENCODING_LABELS[value]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {normalizedSecret && (
+                  <Text
+                    style={[
+                      styles.hintText,
+                      (!normalizedSecret.success || normalizedSecret.data?.isWeak) &&
+                        styles.warningText,
+                    ]}
+                  >
+                    {normalizedSecret.data
+                      ? `${SECRET_ENCODING_LABELS[normalizedSecret.data.encoding]}, ${normalizedSecret.data.bits} bits${
+                          normalizedSecret.data.isWeak
+                            ? `. Shorter than the recommended ${TOTP_CONFIG.RECOMMENDED_SECRET_BITS} bits`
+                            : ''
+                        }`
+                      : normalizedSecret.message}
+                  </Text>
+                )}
+              </>
+            )}
             <TouchableOpacity style={styles.testButton} onPress={testSecret}>
               <Text style={styles.testButtonText}>Test Secret</Text>
             </TouchableOpacity>
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Algorithm</Text>
+            <Text style={styles.label}>Type</Text>
             <View style={styles.buttonGroup}>
-              {(['SHA1', 'SHA256', 'SHA512'] as const).map((alg) => (
+              {([
+                ['totp', 'TOTP'],
+                ['hotp', 'HOTP'],
+                ['yandex', 'Yandex'],
+                ['motp', 'mOTP'],
+                ['ocra', 'OCRA'],
+              ] as const).map(([value, label]) => (
                 <TouchableOpacity
-                  key={alg}
+                  key={value}
                   style={[
                     styles.optionButton,
-                    algorithm === alg && styles.optionButtonActive,
+                    type === value && styles.optionButtonActive,
                   ]}
-                  onPress={() => setAlgorithm(alg)}
+                  onPress={() => setType(value)}
                 >
                   <Text
                     style={[
                       styles.optionButtonText,
-                      algorithm === alg && styles.optionButtonTextActive,
+                      type === value && styles.optionButtonTextActive,
                     ]}
                   >
-                    {alg}
+                    {label}
                   </Text>
                 </TouchableOpacity>
               ))}
             </View>
           </View>
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Digits</Text>
-            <View style={styles.buttonGroup}>
-              {([6, 7, 8] as const).map((num) => (
-                <TouchableOpacity
-                  key={num}
-                  style={[
-                    styles.optionButton,
-                    digits === num && styles.optionButtonActive,
-                  ]}
-                  onPress={() => setDigits(num)}
-                >
-                  <Text
-                    style={[
-                      styles.optionButtonText,
-                      digits === num && styles.optionButtonTextActive,
-                    ]}
-                  >
-                    {num}
-                  </Text>
+          {type === 'totp' && encoder === 'default' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Detect Settings</Text>
+              <Text style={styles.detectHint}>
+                Not sure about the settings below? Enter the code another app
+                shows for this secret, and optionally the one after it.
+              </Text>
+              <View style={styles.suggestRow}>
+                <TextInput
+                  style={[styles.input, styles.suggestInput]}
+                  value={observedCode}
+                  onChangeText={setObservedCode}
+                  placeholder="Current code"
+                  placeholderTextColor="#999"
+                  keyboardType="number-pad"
+                  maxLength={8}
+                />
+                <TextInput
+                  style={[styles.input, styles.suggestInput]}
+                  value={nextObservedCode}
+                  onChangeText={setNextObservedCode}
+                  placeholder="Next code"
+                  placeholderTextColor="#999"
+                  keyboardType="number-pad"
+                  maxLength={8}
+                />
+                <TouchableOpacity style={styles.testButton} onPress={detectSettings}>
+                  <Text style={styles.testButtonText}>Detect</Text>
                 </TouchableOpacity>
-              ))}
+              </View>
             </View>
-          </View>
+          )}
 
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Period (seconds)</Text>
-            <TextInput
-              style={styles.input}
-              value={period}
-              onChangeText={setPeriod}
-              placeholder="30"
-              placeholderTextColor="#999"
-              keyboardType="numeric"
-            />
-          </View>
+          {pinDefaults ? (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>PIN *</Text>
+              <TextInput
+                style={styles.input}
+                value={pin}
+                onChangeText={setPin}
+                placeholder="4 to 16 digits"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+                secureTextEntry={true}
+              />
+            </View>
+          ) : type === 'ocra' ? (
+            <>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>OCRA Suite *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={ocraSuite}
+                  onChangeText={setOcraSuite}
+                  placeholder="e.g., OCRA-1:HOTP-SHA1-6:QN08"
+                  placeholderTextColor="#999"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              </View>
+
+              {parsedSuite?.pinHash && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>PIN</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={pin}
+                    onChangeText={setPin}
+                    placeholder="Leave empty to enter it with each challenge"
+                    placeholderTextColor="#999"
+                    keyboardType="number-pad"
+                    secureTextEntry={true}
+                  />
+                </View>
+              )}
+
+              {parsedSuite?.counter && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Counter</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={counter}
+                    onChangeText={setCounter}
+                    placeholder="0"
+                    placeholderTextColor="#999"
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
+            </>
+          ) : (
+            <>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Code Format</Text>
+                <View style={styles.buttonGroup}>
+                  {([
+                    ['default', 'Digits'],
+                    ['steam', 'Steam Guard'],
+                  ] as const).map(([value, label]) => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[
+                        styles.optionButton,
+                        encoder === value && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setEncoder(value)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          encoder === value && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Algorithm</Text>
+                <View style={styles.buttonGroup}>
+                  {(['SHA1', 'SHA256', 'SHA512'] as const).map((alg) => (
+                    <TouchableOpacity
+                      key={alg}
+                      style={[
+                        styles.optionButton,
+                        algorithm === alg && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setAlgorithm(alg)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          algorithm === alg && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {alg}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Digits</Text>
+                <View style={styles.buttonGroup}>
+                  {([6, 7, 8] as const).map((num) => (
+                    <TouchableOpacity
+                      key={num}
+                      style={[
+                        styles.optionButton,
+                        digits === num && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setDigits(num)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          digits === num && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {num}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {type === 'hotp' ? (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Counter</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={counter}
+                    onChangeText={setCounter}
+                    placeholder="0"
+                    placeholderTextColor="#999"
+                    keyboardType="numeric"
+                  />
+                </View>
+              ) : (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Period (seconds)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={period}
+                    onChangeText={setPeriod}
+                    placeholder="30"
+                    placeholderTextColor="#999"
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
+            </>
+          )}
+
+          {isTimeBased && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Time Offset (seconds)</Text>
+              <TextInput
+                style={styles.input}
+                value={timeOffset}
+                onChangeText={setTimeOffset}
+                placeholder="0"
+                placeholderTextColor="#999"
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text style={styles.hintText}>
+                Only for services whose clock is wrong. Positive values move
+                codes ahead.
+              </Text>
+
+              {type === 'totp' && (
+                <View style={styles.suggestRow}>
+                  <TextInput
+                    style={[styles.input, styles.suggestInput]}
+                    value={acceptedCode}
+                    onChangeText={setAcceptedCode}
+                    placeholder="Code the service accepted"
+                    placeholderTextColor="#999"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                  <TouchableOpacity style={styles.testButton} onPress={suggestOffset}>
+                    <Text style={styles.testButtonText}>Suggest</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          )}
         </View>
       </ScrollView>
 
@@ -312,6 +762,30 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  hintText: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 6,
+  },
+  encodingGroup: {
+    marginTop: 8,
+  },
+  warningText: {
+    color: '#8a6d00',
+  },
+  detectHint: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  suggestRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  suggestInput: {
+    flex: 1,
+    marginRight: 8,
+  },
   buttonGroup: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { TOTPService } from '@/services/TOTPService';
+import { LocalTOTPAccount } from '@/types';
+import { TOTP_CONFIG } from '@/utils/constants';
+
+interface HOTPResyncFormProps {
+  account: LocalTOTPAccount;
+  onResync: (counter: number) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const HOTPResyncForm: React.FC<HOTPResyncFormProps> = ({
+  account,
+  onResync,
+  onCancel,
+}) => {
+  const [firstCode, setFirstCode] = useState('');
+  const [secondCode, setSecondCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totpService = TOTPService.getInstance();
+
+  const handleResync = async () => {
+    let counter: number | null;
+    try {
+      counter = totpService.resyncHOTP(
+        account.secret,
+        firstCode,
+        secondCode,
+        account.counter ?? 0,
+        {
+          algorithm: account.algorithm as any,
+          digits: account.digits as any,
+        }
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Invalid codes');
+      return;
+    }
+
+    if (counter === null) {
+      Alert.alert(
+        'Not Found',
+        `These codes were not found in the next ${TOTP_CONFIG.HOTP_RESYNC_WINDOW} counters. Check that they are consecutive and were entered in order.`
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onResync(counter);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.form}>
+        <Text style={styles.title}>Resync Counter</Text>
+        <Text style={styles.subtitle}>
+          Generate two codes in a row on your token or the other device, then
+          enter them below. {account.serviceName} is currently at counter{' '}
+          {account.counter ?? 0}.
+        </Text>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>First Code</Text>
+          <TextInput
+            style={styles.input}
+            value={firstCode}
+            onChangeText={setFirstCode}
+            placeholder={'0'.repeat(account.digits)}
+            placeholderTextColor="#999"
+            keyboardType="number-pad"
+            maxLength={account.digits + 1}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Next Code</Text>
+          <TextInput
+            style={styles.input}
+            value={secondCode}
+            onChangeText={setSecondCode}
+            placeholder={'0'.repeat(account.digits)}
+            placeholderTextColor="#999"
+            keyboardType="number-pad"
+            maxLength={account.digits + 1}
+          />
+        </View>
+      </View>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={[styles.button, styles.cancelButton]}
+          onPress={onCancel}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.saveButton]}
+          onPress={handleResync}
+          disabled={isSaving || !firstCode || !secondCode}
+        >
+          <Text style={styles.saveButtonText}>
+            {isSaving ? 'Saving...' : 'Resync'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  form: {
+    flex: 1,
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c2c2c',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 20,
+    color: '#2c2c2c',
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  saveButton: {
+    backgroundColor: '#3742fa',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
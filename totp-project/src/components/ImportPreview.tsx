@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { LocalTOTPAccount } from '@/types';
+import { AccountInput } from '@/services/AccountRepository';
+import { isDuplicate } from '@/services/AccountImport';
+
+interface ImportPreviewProps {
+  title: string;
+  accounts: AccountInput[];
+  unsupported: string[];
+  existingAccounts: LocalTOTPAccount[];
+  onImport: (accounts: AccountInput[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({
+  title,
+  accounts,
+  unsupported,
+  existingAccounts,
+  onImport,
+  onCancel,
+}) => {
+  const duplicates = accounts.map(account =>
+    isDuplicate(account, existingAccounts)
+  );
+  // Accounts that are already in the vault start unselected
+  const [selected, setSelected] = useState<boolean[]>(
+    duplicates.map(duplicate => !duplicate)
+  );
+  const [isImporting, setIsImporting] = useState(false);
+
+  const selectedCount = selected.filter(Boolean).length;
+
+  const toggle = (index: number) => {
+    setSelected(current =>
+      current.map((value, i) => (i === index ? !value : value))
+    );
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(accounts.filter((_, index) => selected[index]));
+    } catch (error) {
+      console.error('Failed to import accounts:', error);
+      Alert.alert('Error', 'Failed to import accounts');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderItem = ({ item, index }: { item: AccountInput; index: number }) => (
+    <TouchableOpacity style={styles.item} onPress={() => toggle(index)}>
+      <View style={[styles.checkbox, selected[index] && styles.checkboxChecked]}>
+        {selected[index] && <Text style={styles.checkmark}>✓</Text>}
+      </View>
+      <View style={styles.itemText}>
+        <Text style={styles.serviceName}>{item.serviceName}</Text>
+        <Text style={styles.accountName}>{item.accountName}</Text>
+        <Text style={styles.details}>
+          {(item.type || 'totp').toUpperCase()} · {item.algorithm} · {item.digits} digits
+          {duplicates[index] ? ' · Already added' : ''}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.subtitle}>
+        Choose the accounts to import. Accounts you already have are not
+        selected.
+      </Text>
+
+      <FlatList
+        data={accounts}
+        renderItem={renderItem}
+        keyExtractor={(_, index) => index.toString()}
+        style={styles.list}
+        ListFooterComponent={
+          unsupported.length > 0 ? (
+            <View style={styles.unsupported}>
+              <Text style={styles.unsupportedTitle}>
+                {unsupported.length} {unsupported.length === 1 ? 'entry' : 'entries'} cannot be imported
+              </Text>
+              {unsupported.map((reason, index) => (
+                <Text key={index} style={styles.unsupportedText}>
+                  {reason}
+                </Text>
+              ))}
+            </View>
+          ) : null
+        }
+      />
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={[styles.button, styles.cancelButton]}
+          onPress={onCancel}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.importButton]}
+          onPress={handleImport}
+          disabled={isImporting || selectedCount === 0}
+        >
+          <Text style={styles.importButtonText}>
+            {isImporting ? 'Importing...' : `Import ${selectedCount}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginHorizontal: 16,
+    marginVertical: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ddd',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#3742fa',
+    borderColor: '#3742fa',
+  },
+  checkmark: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemText: {
+    flex: 1,
+  },
+  serviceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c2c2c',
+  },
+  accountName: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  details: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 4,
+  },
+  unsupported: {
+    padding: 16,
+  },
+  unsupportedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8a6d00',
+    marginBottom: 4,
+  },
+  unsupportedText: {
+    fontSize: 13,
+    color: '#8a6d00',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  importButton: {
+    backgroundColor: '#3742fa',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  Dimensions,
+  SafeAreaView,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { LocalTOTPAccount, MigrationExport as MigrationExportCodes } from '@/types';
+import { BiometricService } from '@/services/BiometricService';
+import { createMigrationURLs } from '@/services/GoogleMigration';
+
+interface MigrationExportProps {
+  accounts: LocalTOTPAccount[];
+  onClose: () => void;
+}
+
+export const MigrationExport: React.FC<MigrationExportProps> = ({
+  accounts,
+  onClose,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(accounts.map(account => account.id))
+  );
+  const [codes, setCodes] = useState<MigrationExportCodes | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
+
+  const toggle = (accountId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(accountId)) {
+        next.delete(accountId);
+      } else {
+        next.add(accountId);
+      }
+      return next;
+    });
+  };
+
+  // The codes contain every selected secret, so the user must prove it is them
+  const handleShowCodes = async () => {
+    const selected = accounts.filter(account => selectedIds.has(account.id));
+    const exported = createMigrationURLs(selected);
+
+    if (exported.urls.length === 0) {
+      Alert.alert(
+        'Nothing to Export',
+        ['None of the selected accounts can be exported.', ...exported.unsupported].join('\n')
+      );
+      return;
+    }
+
+    setIsAuthenticating(true);
+    try {
+      const result = await BiometricService.getInstance().authenticate(
+        'Confirm it is you to show your secret keys'
+      );
+      if (!result.success) {
+        Alert.alert(
+          'Authentication Required',
+          result.error || 'Export codes are only shown after you confirm your identity'
+        );
+        return;
+      }
+
+      setPageIndex(0);
+      setCodes(exported);
+      if (exported.unsupported.length > 0) {
+        Alert.alert('Some Accounts Skipped', exported.unsupported.join('\n'));
+      }
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  if (codes) {
+    return (
+      <SafeAreaView style={styles.pagerContainer}>
+        <FlatList
+          data={codes.urls}
+          horizontal={true}
+          pagingEnabled={true}
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(_, index) => index.toString()}
+          onMomentumScrollEnd={event =>
+            setPageIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+          }
+          renderItem={({ item }) => (
+            <View style={styles.page}>
+              <QRCode value={item} size={qrSize} ecl="L" quietZone={16} />
+            </View>
+          )}
+        />
+
+        <View style={styles.pagerFooter}>
+          <Text style={styles.pageTitle}>
+            Code {pageIndex + 1} of {codes.urls.length}
+          </Text>
+          <Text style={styles.pageHint}>
+            {codes.urls.length > 1
+              ? 'Scan every code with Google Authenticator or a compatible app, swiping to the next one after each scan.'
+              : 'Scan this code with Google Authenticator or a compatible app.'}
+          </Text>
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Text style={styles.title}>Export Accounts</Text>
+      <Text style={styles.subtitle}>
+        Choose the accounts to move to another device. Anyone who sees the
+        export codes can copy these accounts.
+      </Text>
+
+      <FlatList
+        data={accounts}
+        keyExtractor={item => item.id}
+        style={styles.list}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.item} onPress={() => toggle(item.id)}>
+            <View
+              style={[styles.checkbox, selectedIds.has(item.id) && styles.checkboxChecked]}
+            >
+              {selectedIds.has(item.id) && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <View style={styles.itemText}>
+              <Text style={styles.serviceName}>{item.serviceName}</Text>
+              <Text style={styles.accountName}>{item.accountName}</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+      />
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={[styles.button, styles.cancelButton]}
+          onPress={onClose}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.exportButton]}
+          onPress={handleShowCodes}
+          disabled={isAuthenticating || selectedIds.size === 0}
+        >
+          <Text style={styles.exportButtonText}>
+            {isAuthenticating ? 'Confirming...' : 'Show QR Codes'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const { width } = Dimensions.get('window');
+const qrSize = width * 0.8;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginHorizontal: 16,
+    marginVertical: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ddd',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#3742fa',
+    borderColor: '#3742fa',
+  },
+  checkmark: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemText: {
+    flex: 1,
+  },
+  serviceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c2c2c',
+  },
+  accountName: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  exportButton: {
+    backgroundColor: '#3742fa',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  pagerContainer: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  page: {
+    width,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pagerFooter: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  pageTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    marginBottom: 8,
+  },
+  pageHint: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  doneButton: {
+    backgroundColor: '#3742fa',
+    paddingVertical: 16,
+    paddingHorizontal: 48,
+    borderRadius: 8,
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Clipboard,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { TOTPService } from '@/services/TOTPService';
+import { LocalTOTPAccount, OCRAInputs, OCRASuite } from '@/types';
+
+interface OCRAChallengeFormProps {
+  account: LocalTOTPAccount;
+  onNextCounter: () => Promise<number>; // reserves the counter for C suites
+  onClose: () => void;
+}
+
+const CHALLENGE_FORMATS: Record<OCRASuite['challengeFormat'], string> = {
+  N: 'digits',
+  A: 'letters and digits',
+  H: 'hexadecimal characters',
+};
+
+export const OCRAChallengeForm: React.FC<OCRAChallengeFormProps> = ({
+  account,
+  onNextCounter,
+  onClose,
+}) => {
+  const [challenge, setChallenge] = useState('');
+  const [session, setSession] = useState('');
+  const [pin, setPin] = useState('');
+  const [response, setResponse] = useState('');
+  const [isComputing, setIsComputing] = useState(false);
+
+  const totpService = TOTPService.getInstance();
+
+  const suite = useMemo(() => {
+    try {
+      return totpService.parseOCRASuite(account.ocraSuite || '');
+    } catch {
+      return null;
+    }
+  }, [account.ocraSuite]);
+
+  const handleCompute = async () => {
+    if (!suite || !account.ocraSuite) return;
+
+    const inputs: OCRAInputs = {
+      challenge,
+      session,
+      pin: account.pin || pin,
+      counter: account.counter ?? 0,
+      timestampMs: totpService.now(account.timeOffsetSeconds),
+    };
+
+    // Check the inputs before a counter value is used up
+    try {
+      totpService.generateOCRA(account.secret, account.ocraSuite, inputs);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Invalid challenge');
+      return;
+    }
+
+    setIsComputing(true);
+    try {
+      if (suite.counter) {
+        inputs.counter = await onNextCounter();
+      }
+      setResponse(totpService.generateOCRA(account.secret, account.ocraSuite, inputs));
+    } catch (error) {
+      console.error('Failed to compute OCRA response:', error);
+      Alert.alert('Error', 'Failed to compute the response');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const copyResponse = async () => {
+    try {
+      await Clipboard.setString(response);
+      Alert.alert('Copied', 'Response copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.form}>
+          <Text style={styles.title}>{account.serviceName}</Text>
+          <Text style={styles.subtitle}>{account.accountName}</Text>
+          <Text style={styles.suiteText}>{account.ocraSuite}</Text>
+
+          {!suite ? (
+            <Text style={styles.errorText}>
+              This account's OCRA suite is not supported. Edit the account to fix it.
+            </Text>
+          ) : (
+            <>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Challenge *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={challenge}
+                  onChangeText={text => {
+                    setChallenge(text);
+                    setResponse('');
+                  }}
+                  placeholder={`4 to ${suite.challengeMaxLength} ${CHALLENGE_FORMATS[suite.challengeFormat]}`}
+                  placeholderTextColor="#999"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType={suite.challengeFormat === 'N' ? 'number-pad' : 'default'}
+                  maxLength={suite.challengeMaxLength}
+                />
+              </View>
+
+              {suite.sessionLength !== undefined && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Session Information</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={session}
+                    onChangeText={setSession}
+                    placeholder={`Up to ${suite.sessionLength} bytes in hex`}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+              )}
+
+              {suite.pinHash && !account.pin && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>PIN *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={pin}
+                    onChangeText={setPin}
+                    placeholder="PIN"
+                    placeholderTextColor="#999"
+                    keyboardType="number-pad"
+                    secureTextEntry={true}
+                  />
+                </View>
+              )}
+
+              {suite.counter && (
+                <Text style={styles.hintText}>
+                  Next counter: {account.counter ?? 0}
+                </Text>
+              )}
+
+              <TouchableOpacity
+                style={styles.computeButton}
+                onPress={handleCompute}
+                disabled={isComputing || !challenge}
+              >
+                <Text style={styles.computeButtonText}>
+                  {isComputing ? 'Computing...' : 'Compute Response'}
+                </Text>
+              </TouchableOpacity>
+
+              {response !== '' && (
+                <TouchableOpacity style={styles.responseContainer} onPress={copyResponse}>
+                  <Text style={styles.responseText}>{response}</Text>
+                  <Text style={styles.hintText}>Tap to copy</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  suiteText: {
+    fontSize: 12,
+    color: '#999999',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4757',
+    textAlign: 'center',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c2c2c',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#2c2c2c',
+    fontFamily: 'monospace',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  computeButton: {
+    backgroundColor: '#3742fa',
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  computeButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  responseContainer: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  responseText: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#3742fa',
+    fontFamily: 'monospace',
+    letterSpacing: 4,
+    marginBottom: 8,
+  },
+  buttonContainer: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+  },
+  closeButton: {
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+});
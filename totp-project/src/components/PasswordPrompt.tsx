@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+
+interface PasswordPromptProps {
+  title: string;
+  message: string;
+  onSubmit: (password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({
+  title,
+  message,
+  onSubmit,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Errors stay in the prompt so a mistyped password can be corrected
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(password);
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error ? submitError.message : 'Failed to unlock'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.dialog}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.message}>{message}</Text>
+
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          secureTextEntry={true}
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus={true}
+          editable={!isSubmitting}
+          onSubmitEditing={handleSubmit}
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, styles.cancelButton]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.unlockButton]}
+            onPress={handleSubmit}
+            disabled={isSubmitting || password.length === 0}
+          >
+            <Text style={styles.unlockButtonText}>
+              {isSubmitting ? 'Unlocking...' : 'Unlock'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#2c2c2c',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ff4757',
+    marginTop: 8,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  unlockButton: {
+    backgroundColor: '#3742fa',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  unlockButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
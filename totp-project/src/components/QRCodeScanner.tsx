@@ -9,20 +9,29 @@ import {
 } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import { TOTPService } from '@/services/TOTPService';
-import { QRCodeResult } from '@/types';
+import { decodeMigrationURL, isMigrationURL } from '@/services/GoogleMigration';
+import { ImportBatch, accountFromQRCode } from '@/services/AccountImport';
+import { MigrationBatch, QRCodeResult } from '@/types';
+
+// Pause between export codes so the one still on screen is not read again
+const NEXT_CODE_DELAY = 1000;
 
 interface QRCodeScannerProps {
   onScanSuccess: (result: QRCodeResult) => void;
+  onMigrationScan?: (batch: ImportBatch) => void; // Google Authenticator exports
   onCancel: () => void;
 }
 
 export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
   onScanSuccess,
+  onMigrationScan,
   onCancel,
 }) => {
   const [permission, requestPermission] = useCameraPermissions();
   const [isScanning, setIsScanning] = useState(true);
   const [flashEnabled, setFlashEnabled] = useState(false);
+  // QR codes scanned so far from a multi-code export, by batch index
+  const [migrationParts, setMigrationParts] = useState<MigrationBatch[]>([]);
 
   const totpService = TOTPService.getInstance();
 
@@ -37,6 +46,11 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
 
     setIsScanning(false);
 
+    if (onMigrationScan && isMigrationURL(data)) {
+      handleMigrationScanned(data);
+      return;
+    }
+
     try {
       // Parse OTPAuth URL
       const result = totpService.parseOTPAuthURL(data);
@@ -65,6 +79,43 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
     }
   };
 
+  // Collect every QR code of an export before handing the accounts over
+  const handleMigrationScanned = (data: string) => {
+    let part: MigrationBatch;
+    try {
+      part = decodeMigrationURL(data);
+    } catch (error) {
+      Alert.alert(
+        'Invalid Export Code',
+        error instanceof Error ? error.message : 'This export QR code could not be read.',
+        [{ text: 'Try Again', onPress: () => setIsScanning(true) }]
+      );
+      return;
+    }
+
+    // A code from another export starts over
+    const sameExport = migrationParts.filter(
+      existing =>
+        existing.batchId === part.batchId && existing.batchSize === part.batchSize
+    );
+    const parts = sameExport.some(existing => existing.batchIndex === part.batchIndex)
+      ? sameExport
+      : [...sameExport, part];
+
+    if (parts.length < part.batchSize) {
+      setMigrationParts(parts);
+      setTimeout(() => setIsScanning(true), NEXT_CODE_DELAY);
+      return;
+    }
+
+    const ordered = [...parts].sort((a, b) => a.batchIndex - b.batchIndex);
+    setMigrationParts([]);
+    onMigrationScan?.({
+      accounts: ordered.flatMap(batch => batch.entries.map(accountFromQRCode)),
+      unsupported: ordered.flatMap(batch => batch.unsupported),
+    });
+  };
+
   const toggleFlash = () => {
     setFlashEnabled(!flashEnabled);
   };
@@ -130,13 +181,26 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
 
           {/* Instructions */}
           <View style={styles.instructions}>
-            <Text style={styles.instructionTitle}>Scan QR Code</Text>
-            <Text style={styles.instructionText}>
-              Position the QR code within the frame to scan
-            </Text>
-            <Text style={styles.instructionSubtext}>
-              The QR code should be from your authenticator app setup
-            </Text>
+            {migrationParts.length > 0 ? (
+              <>
+                <Text style={styles.instructionTitle}>
+                  Scanned {migrationParts.length} of {migrationParts[0].batchSize}
+                </Text>
+                <Text style={styles.instructionText}>
+                  Show the next QR code in Google Authenticator
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.instructionTitle}>Scan QR Code</Text>
+                <Text style={styles.instructionText}>
+                  Position the QR code within the frame to scan
+                </Text>
+                <Text style={styles.instructionSubtext}>
+                  Use a setup code or a Google Authenticator export code
+                </Text>
+              </>
+            )}
           </View>
         </View>
       </CameraView>
@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  AccountConflict,
+  ConflictChoice,
+  FieldConflict,
+  LocalTOTPAccount,
+  SyncedField,
+} from '@/types';
+
+interface SyncConflictResolverProps {
+  conflicts: AccountConflict[];
+  accounts: LocalTOTPAccount[];
+  onResolve: (
+    accountId: string,
+    choices: Partial<Record<SyncedField, ConflictChoice>>
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<SyncedField, string> = {
+  serviceName: 'Service Name',
+  accountName: 'Account Name',
+  secret: 'Secret Key',
+  pin: 'PIN',
+  algorithm: 'Algorithm',
+  digits: 'Digits',
+  period: 'Period',
+  iconUrl: 'Icon',
+  type: 'Type',
+  counter: 'Counter',
+  encoder: 'Code Format',
+  ocraSuite: 'OCRA Suite',
+  timeOffsetSeconds: 'Time Offset',
+  group: 'Group',
+  notes: 'Notes',
+};
+
+// Never show a full secret; the last characters are enough to tell them apart
+const formatValue = (conflict: FieldConflict, value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (conflict.field === 'secret') {
+    return `••••${String(value).slice(-4)}`;
+  }
+  if (conflict.field === 'pin') {
+    return '••••';
+  }
+  if (conflict.field === 'period' || conflict.field === 'timeOffsetSeconds') {
+    return `${value}s`;
+  }
+  return String(value);
+};
+
+export const SyncConflictResolver: React.FC<SyncConflictResolverProps> = ({
+  conflicts,
+  accounts,
+  onResolve,
+  onClose,
+}) => {
+  const [choices, setChoices] = useState<
+    Record<string, Partial<Record<SyncedField, ConflictChoice>>>
+  >({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const getChoice = (accountId: string, field: SyncedField): ConflictChoice =>
+    choices[accountId]?.[field] || 'local';
+
+  const setChoice = (
+    accountId: string,
+    field: SyncedField,
+    choice: ConflictChoice
+  ) => {
+    setChoices(prev => ({
+      ...prev,
+      [accountId]: { ...prev[accountId], [field]: choice },
+    }));
+  };
+
+  const chooseAll = (conflict: AccountConflict, choice: ConflictChoice) => {
+    setChoices(prev => ({
+      ...prev,
+      [conflict.accountId]: Object.fromEntries(
+        conflict.fields.map(fieldConflict => [fieldConflict.field, choice])
+      ),
+    }));
+  };
+
+  const handleApply = async (conflict: AccountConflict) => {
+    setResolvingId(conflict.accountId);
+    try {
+      await onResolve(conflict.accountId, choices[conflict.accountId] || {});
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderConflict = (conflict: AccountConflict) => {
+    const account = accounts.find(acc => acc.id === conflict.accountId);
+    const isResolving = resolvingId === conflict.accountId;
+
+    return (
+      <View key={conflict.accountId} style={styles.card}>
+        <Text style={styles.accountTitle}>
+          {account?.serviceName || 'Unknown account'}
+        </Text>
+        {account && (
+          <Text style={styles.accountSubtitle}>{account.accountName}</Text>
+        )}
+
+        <View style={styles.columnHeaders}>
+          <Text style={styles.columnHeader}>This device</Text>
+          <Text style={styles.columnHeader}>Cloud</Text>
+        </View>
+
+        {conflict.fields.map(fieldConflict => {
+          const choice = getChoice(conflict.accountId, fieldConflict.field);
+          return (
+            <View key={fieldConflict.field} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>
+                {FIELD_LABELS[fieldConflict.field]}
+              </Text>
+              <View style={styles.options}>
+                {(['local', 'cloud'] as const).map(side => (
+                  <TouchableOpacity
+                    key={side}
+                    style={[
+                      styles.optionButton,
+                      choice === side && styles.optionButtonActive,
+                    ]}
+                    onPress={() =>
+                      setChoice(conflict.accountId, fieldConflict.field, side)
+                    }
+                    disabled={isResolving}
+                  >
+                    <Text
+                      style={[
+                        styles.optionButtonText,
+                        choice === side && styles.optionButtonTextActive,
+                      ]}
+                      numberOfLines={2}
+                    >
+                      {formatValue(fieldConflict, fieldConflict[side])}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          );
+        })}
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => chooseAll(conflict, 'local')}
+            disabled={isResolving}
+          >
+            <Text style={styles.linkButtonText}>Keep All Local</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => chooseAll(conflict, 'cloud')}
+            disabled={isResolving}
+          >
+            <Text style={styles.linkButtonText}>Keep All Cloud</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={() => handleApply(conflict)}
+            disabled={isResolving}
+          >
+            {isResolving ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.applyButtonText}>Apply</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Sync Conflicts</Text>
+        <Text style={styles.subtitle}>
+          These accounts were changed differently on this device and in the
+          cloud. Choose which value to keep for each field.
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollView}>
+        {conflicts.length === 0 ? (
+          <Text style={styles.emptyText}>No conflicts to resolve</Text>
+        ) : (
+          conflicts.map(renderConflict)
+        )}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c2c2c',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  accountTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c2c2c',
+  },
+  accountSubtitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  columnHeaders: {
+    flexDirection: 'row',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  columnHeader: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+    textTransform: 'uppercase',
+    textAlign: 'center',
+  },
+  fieldRow: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c2c2c',
+    marginBottom: 6,
+  },
+  options: {
+    flexDirection: 'row',
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  optionButtonActive: {
+    backgroundColor: '#3742fa',
+    borderColor: '#3742fa',
+  },
+  optionButtonText: {
+    fontSize: 14,
+    color: '#2c2c2c',
+  },
+  optionButtonTextActive: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  linkButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    color: '#3742fa',
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: '#3742fa',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonContainer: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+  },
+  closeButton: {
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+});
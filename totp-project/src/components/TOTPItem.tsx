@@ -14,34 +14,33 @@ interface TOTPItemProps {
   account: LocalTOTPAccount;
   onPress?: () => void;
   onLongPress?: () => void;
+  onNextCode?: () => Promise<number>; // HOTP: reserves and returns the next counter
 }
 
 export const TOTPItem: React.FC<TOTPItemProps> = ({
   account,
   onPress,
   onLongPress,
+  onNextCode,
 }) => {
   const [totpCode, setTotpCode] = useState<string>('');
   const [timeRemaining, setTimeRemaining] = useState<number>(30);
   const [isGeneratingCode, setIsGeneratingCode] = useState<boolean>(false);
 
   const totpService = TOTPService.getInstance();
+  const isHOTP = account.type === 'hotp';
+  const isOCRA = account.type === 'ocra';
 
   // Generate TOTP code and calculate time remaining
   const updateTOTP = () => {
     try {
-      const code = totpService.generateTOTP(account.secret, {
-        algorithm: account.algorithm as any,
-        digits: account.digits as any,
-        period: account.period,
-      });
+      const code = totpService.generateAccountCode(account);
       setTotpCode(code);
 
       // Calculate time remaining in current period
-      const now = Math.floor(Date.now() / 1000);
-      const timeInPeriod = now % account.period;
-      const remaining = account.period - timeInPeriod;
-      setTimeRemaining(remaining);
+      setTimeRemaining(
+        totpService.getTimeRemaining(account.period, account.timeOffsetSeconds)
+      );
     } catch (error) {
       console.error('Error generating TOTP:', error);
       setTotpCode('ERROR');
@@ -49,13 +48,38 @@ export const TOTPItem: React.FC<TOTPItemProps> = ({
     }
   };
 
-  // Update TOTP every second
+  // Update TOTP every second; HOTP and OCRA codes only change on request
   useEffect(() => {
+    if (isHOTP || isOCRA) {
+      return;
+    }
     updateTOTP();
     const interval = setInterval(updateTOTP, 1000);
     return () => clearInterval(interval);
   }, [account]);
 
+  // Reserve the next HOTP counter and show its code
+  const showNextHOTP = async () => {
+    if (!onNextCode) return;
+
+    setIsGeneratingCode(true);
+    try {
+      const counter = await onNextCode();
+      setTotpCode(
+        totpService.generateHOTP(account.secret, counter, {
+          algorithm: account.algorithm as any,
+          digits: account.digits as any,
+          encoder: account.encoder,
+        })
+      );
+    } catch (error) {
+      console.error('Error generating HOTP:', error);
+      setTotpCode('ERROR');
+    } finally {
+      setIsGeneratingCode(false);
+    }
+  };
+
   // Copy to clipboard with feedback
   const copyToClipboard = async () => {
     if (totpCode && totpCode !== 'ERROR') {
@@ -73,6 +97,13 @@ export const TOTPItem: React.FC<TOTPItemProps> = ({
 
   // Format TOTP code with spaces for readability
   const formatTOTPCode = (code: string): string => {
+    if (!code && isHOTP) {
+      return '••• •••';
+    }
+    // Steam Guard codes are short alphanumerics and read best unsplit
+    if (account.encoder === 'steam') {
+      return code;
+    }
     if (code.length === 6) {
       return `${code.substring(0, 3)} ${code.substring(3)}`;
     }
@@ -107,31 +138,53 @@ export const TOTPItem: React.FC<TOTPItemProps> = ({
       </View>
 
       <View style={styles.rightContent}>
-        <TouchableOpacity
-          style={styles.codeContainer}
-          onPress={copyToClipboard}
-          disabled={isGeneratingCode || totpCode === 'ERROR'}
-        >
-          <Text style={[styles.totpCode, totpCode === 'ERROR' && styles.errorCode]}>
-            {formatTOTPCode(totpCode)}
-          </Text>
-          <View style={styles.timerContainer}>
-            <View style={styles.progressBarBackground}>
-              <View
-                style={[
-                  styles.progressBar,
-                  {
-                    width: `${progress * 100}%`,
-                    backgroundColor: progressColor,
-                  },
-                ]}
-              />
-            </View>
-            <Text style={[styles.timeText, { color: progressColor }]}>
-              {timeRemaining}s
-            </Text>
-          </View>
-        </TouchableOpacity>
+        {isOCRA ? (
+          // OCRA responses need a challenge, entered in the account view
+          <TouchableOpacity style={styles.respondButton} onPress={onPress}>
+            <Text style={styles.respondButtonText}>Respond</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {isHOTP && (
+              <TouchableOpacity
+                style={styles.refreshButton}
+                onPress={showNextHOTP}
+                disabled={isGeneratingCode}
+              >
+                <Text style={styles.refreshButtonText}>↻</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.codeContainer}
+              onPress={copyToClipboard}
+              disabled={isGeneratingCode || !totpCode || totpCode === 'ERROR'}
+            >
+              <Text style={[styles.totpCode, totpCode === 'ERROR' && styles.errorCode]}>
+                {formatTOTPCode(totpCode)}
+              </Text>
+              {isHOTP ? (
+                <Text style={styles.counterText}>#{account.counter ?? 0}</Text>
+              ) : (
+                <View style={styles.timerContainer}>
+                  <View style={styles.progressBarBackground}>
+                    <View
+                      style={[
+                        styles.progressBar,
+                        {
+                          width: `${progress * 100}%`,
+                          backgroundColor: progressColor,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.timeText, { color: progressColor }]}>
+                    {timeRemaining}s
+                  </Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -186,7 +239,38 @@ const styles = StyleSheet.create({
     color: '#666666',
   },
   rightContent: {
-    alignItems: 'flex-end',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  refreshButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f0f1ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  refreshButtonText: {
+    fontSize: 20,
+    color: '#3742fa',
+    fontWeight: 'bold',
+  },
+  respondButton: {
+    backgroundColor: '#3742fa',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  respondButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  counterText: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: '#666666',
   },
   codeContainer: {
     alignItems: 'center',
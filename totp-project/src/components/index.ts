@@ -1,3 +1,9 @@
 export { TOTPItem } from './TOTPItem';
 export { AddAccountForm } from './AddAccountForm';
 export { QRCodeScanner } from './QRCodeScanner';
+export { SyncConflictResolver } from './SyncConflictResolver';
+export { HOTPResyncForm } from './HOTPResyncForm';
+export { OCRAChallengeForm } from './OCRAChallengeForm';
+export { ImportPreview } from './ImportPreview';
+export { MigrationExport } from './MigrationExport';
+export { PasswordPrompt } from './PasswordPrompt';
@@ -12,12 +12,16 @@ import { doc, setDoc, getDoc, updateDoc, serverTimestamp } from 'firebase/firest
 import { auth, db, COLLECTIONS } from '@/services/firebase';
 import { User, AuthState, ApiResponse } from '@/types';
 import { SessionManager } from '@/services/SessionManager';
+import { SyncKeyService } from '@/services/SyncKeyService';
+import { FirebaseService } from '@/services/FirebaseService';
 
 interface AuthContextType {
   // State
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  hasVault: boolean;
+  isVaultUnlocked: boolean;
 
   // Actions
   signIn: (email: string, password: string) => Promise<ApiResponse<User>>;
@@ -26,6 +30,8 @@ interface AuthContextType {
   resetPassword: (email: string) => Promise<ApiResponse>;
   updateUserProfile: (updates: Partial<User>) => Promise<ApiResponse<User>>;
   resetSessionTimer: () => void;
+  setupVault: (passphrase: string) => Promise<ApiResponse>;
+  unlockVault: (passphrase: string) => Promise<ApiResponse>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -38,6 +44,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [hasVault, setHasVault] = useState(false);
+  const [isVaultUnlocked, setIsVaultUnlocked] = useState(false);
   const sessionManagerRef = useRef<SessionManager | null>(null);
 
   // Convert Firebase user to our User type
@@ -135,6 +143,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logOut = async (): Promise<ApiResponse> => {
     try {
       setIsLoading(true);
+      // Queued writes are kept and replayed when this user signs in again
+      FirebaseService.getInstance().unsubscribeAll();
+      await SyncKeyService.getInstance().lock();
+      setIsVaultUnlocked(false);
       await signOut(auth);
       return {
         success: true,
@@ -203,6 +215,83 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Create the end-to-end sync vault with a new passphrase
+  const setupVault = async (passphrase: string): Promise<ApiResponse> => {
+    if (!user) {
+      return {
+        success: false,
+        error: 'auth/user-not-found',
+        message: 'No user is currently signed in',
+      };
+    }
+
+    try {
+      await SyncKeyService.getInstance().setupVault(user.uid, passphrase);
+      setHasVault(true);
+      setIsVaultUnlocked(true);
+      return {
+        success: true,
+        message: 'Sync vault created',
+      };
+    } catch (error: any) {
+      console.error('Vault setup error:', error);
+
+      // Another device may have created the vault meanwhile; unlock it instead
+      const vault = await SyncKeyService.getInstance()
+        .getVaultInfo(user.uid)
+        .catch(() => null);
+      if (vault) {
+        setHasVault(true);
+        return {
+          success: false,
+          error: 'vault/already-exists',
+          message: 'A sync vault already exists for this account. Enter its passphrase to unlock it.',
+        };
+      }
+
+      return {
+        success: false,
+        error: 'vault/setup-failed',
+        message: error instanceof Error ? error.message : 'Failed to create sync vault',
+      };
+    }
+  };
+
+  // Unlock the end-to-end sync vault with the user's passphrase
+  const unlockVault = async (passphrase: string): Promise<ApiResponse> => {
+    if (!user) {
+      return {
+        success: false,
+        error: 'auth/user-not-found',
+        message: 'No user is currently signed in',
+      };
+    }
+
+    try {
+      const unlocked = await SyncKeyService.getInstance().unlock(user.uid, passphrase);
+      if (!unlocked) {
+        return {
+          success: false,
+          error: 'vault/wrong-passphrase',
+          message: 'Incorrect vault passphrase',
+        };
+      }
+
+      setIsVaultUnlocked(true);
+      return {
+        success: true,
+        message: 'Sync vault unlocked',
+      };
+    } catch (error: any) {
+      console.error('Vault unlock error:', error);
+      return {
+        success: false,
+        error: 'vault/unlock-failed',
+        message: 'Failed to unlock sync vault',
+      };
+    }
+  };
+
   // Initialize session manager
   useEffect(() => {
     if (!sessionManagerRef.current) {
@@ -231,6 +320,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       try {
         if (firebaseUser) {
           const userProfile = await createUserProfile(firebaseUser);
+          const restored = await SyncKeyService.getInstance().restoreCachedKey(
+            firebaseUser.uid
+          );
+          setHasVault(!!userProfile.vault);
+          setIsVaultUnlocked(restored);
           setUser(userProfile);
           setIsAuthenticated(true);
 
@@ -241,6 +335,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         } else {
           setUser(null);
           setIsAuthenticated(false);
+          setIsVaultUnlocked(false);
 
           // Stop session management
           if (sessionManagerRef.current) {
@@ -263,12 +358,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user,
     isLoading,
     isAuthenticated,
+    hasVault,
+    isVaultUnlocked,
     signIn,
     signUp,
     logOut,
     resetPassword,
     updateUserProfile,
     resetSessionTimer,
+    setupVault,
+    unlockVault,
   };
 
   return (
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { LocalTOTPAccount } from '@/types';
+import { AccountRepository } from '@/services/AccountRepository';
+
+/**
+ * Custom hook exposing the shared account list from AccountRepository
+ * Re-renders whenever any screen or the sync engine changes the accounts
+ */
+export const useAccounts = () => {
+  const repository = AccountRepository.getInstance();
+  const [accounts, setAccounts] = useState<LocalTOTPAccount[]>(
+    repository.getAccounts()
+  );
+
+  useEffect(() => {
+    return repository.subscribe(setAccounts);
+  }, [repository]);
+
+  return { accounts, repository };
+};
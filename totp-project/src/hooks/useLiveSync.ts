@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { FirebaseService } from '@/services/FirebaseService';
+
+/**
+ * Custom hook that keeps accounts in sync with Firestore in real time
+ * The listener only runs while the app is in the foreground
+ */
+export const useLiveSync = (userId: string | undefined) => {
+  const [liveSyncError, setLiveSyncError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const firebaseService = FirebaseService.getInstance();
+    const start = () => {
+      setLiveSyncError(null);
+      firebaseService.startLiveSync(userId, error => {
+        setLiveSyncError(error.message);
+      });
+    };
+
+    if (AppState.currentState === 'active') {
+      start();
+    }
+
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        start();
+      } else {
+        firebaseService.stopLiveSync();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      firebaseService.stopLiveSync();
+    };
+  }, [userId]);
+
+  return { liveSyncError };
+};
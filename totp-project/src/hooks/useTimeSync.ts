@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { FirebaseService } from '@/services/FirebaseService';
+import { TimeSyncService } from '@/services/TimeSyncService';
+import { TimeSyncState } from '@/types';
+
+/**
+ * Custom hook that measures device clock drift at startup and whenever the
+ * app returns to the foreground
+ * Uses the Firestore clock when signed in and the HTTP endpoint otherwise
+ */
+export const useTimeSync = (userId: string | undefined) => {
+  const timeSyncService = TimeSyncService.getInstance();
+  const [timeSync, setTimeSync] = useState<TimeSyncState | null>(
+    timeSyncService.getState()
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const firestoreProbe = userId
+      ? () => FirebaseService.getInstance().measureServerClock(userId)
+      : undefined;
+
+    const refresh = async () => {
+      const state = await timeSyncService.refresh(firestoreProbe);
+      if (!cancelled) {
+        setTimeSync(state);
+      }
+    };
+
+    timeSyncService.load().then(state => {
+      if (cancelled) return;
+      setTimeSync(state);
+      refresh();
+    });
+
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        refresh();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.remove();
+    };
+  }, [userId]);
+
+  return {
+    clockOffsetMs: timeSync?.offsetMs ?? 0,
+    isClockDrifted: timeSyncService.isDrifted(),
+  };
+};
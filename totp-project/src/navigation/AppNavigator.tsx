@@ -7,9 +7,11 @@ import { Ionicons } from '@expo/vector-icons';
 import AuthScreen from '@/screens/AuthScreen';
 import HomeScreen from '@/screens/HomeScreen';
 import SettingsScreen from '@/screens/SettingsScreen';
+import VaultUnlockScreen from '@/screens/VaultUnlockScreen';
 
 export type RootStackParamList = {
   Auth: undefined;
+  VaultUnlock: undefined;
   Main: undefined;
 };
 
@@ -73,12 +75,19 @@ const MainTabs: React.FC = () => {
   );
 };
 
-const AppNavigator: React.FC<{ isAuthenticated: boolean }> = ({ isAuthenticated }) => {
+interface AppNavigatorProps {
+  isAuthenticated: boolean;
+  isVaultUnlocked: boolean;
+}
+
+const AppNavigator: React.FC<AppNavigatorProps> = ({ isAuthenticated, isVaultUnlocked }) => {
   return (
     <NavigationContainer>
       <Stack.Navigator screenOptions={{ headerShown: false }}>
-        {isAuthenticated ? (
+        {isAuthenticated && isVaultUnlocked ? (
           <Stack.Screen name="Main" component={MainTabs} />
+        ) : isAuthenticated ? (
+          <Stack.Screen name="VaultUnlock" component={VaultUnlockScreen} />
         ) : (
           <Stack.Screen name="Auth" component={AuthScreen} />
         )}
@@ -12,28 +12,53 @@ import {
   RefreshControl,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 import { useAuth } from '@/contexts/AuthContext';
 import { TOTPItem } from '@/components/TOTPItem';
 import { AddAccountForm } from '@/components/AddAccountForm';
 import { QRCodeScanner } from '@/components/QRCodeScanner';
 import { ActivityDetector } from '@/components/ActivityDetector';
+import { HOTPResyncForm } from '@/components/HOTPResyncForm';
+import { OCRAChallengeForm } from '@/components/OCRAChallengeForm';
+import { ImportPreview } from '@/components/ImportPreview';
+import { MigrationExport } from '@/components/MigrationExport';
+import { PasswordPrompt } from '@/components/PasswordPrompt';
 import { LocalTOTPAccount, QRCodeResult } from '@/types';
 import { TOTPService } from '@/services/TOTPService';
-import { StorageService } from '@/services/StorageService';
 import { FirebaseService } from '@/services/FirebaseService';
+import { AccountInput } from '@/services/AccountRepository';
+import { ImportBatch, accountFromQRCode } from '@/services/AccountImport';
+import {
+  BACKUP_FORMAT_NAMES,
+  BackupFile,
+  identifyBackup,
+  importBackup,
+} from '@/services/BackupImport';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useLiveSync } from '@/hooks/useLiveSync';
+import { useTimeSync } from '@/hooks/useTimeSync';
+import { formatClockDrift } from '@/utils/helpers';
+import { base64ToBytes } from '@/utils/crypto';
 
 const HomeScreen: React.FC = () => {
   const { user, logOut, resetSessionTimer } = useAuth();
-  const [accounts, setAccounts] = useState<LocalTOTPAccount[]>([]);
+  const { accounts, repository } = useAccounts();
+  const { liveSyncError } = useLiveSync(user?.uid);
+  const { clockOffsetMs, isClockDrifted } = useTimeSync(user?.uid);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [editingAccount, setEditingAccount] = useState<LocalTOTPAccount | null>(null);
+  const [resyncAccount, setResyncAccount] = useState<LocalTOTPAccount | null>(null);
+  const [challengeAccountId, setChallengeAccountId] = useState<string | null>(null);
+  const [importBatch, setImportBatch] = useState<ImportBatch | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [encryptedBackup, setEncryptedBackup] = useState<BackupFile | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   const totpService = TOTPService.getInstance();
-  const storageService = StorageService.getInstance();
   const firebaseService = FirebaseService.getInstance();
 
   // Load accounts from storage and sync
@@ -41,16 +66,13 @@ const HomeScreen: React.FC = () => {
     try {
       setIsLoading(true);
       // Load from local storage first
-      const localAccounts = await storageService.loadAccounts();
-      setAccounts(localAccounts);
+      await repository.load();
 
       // If user is authenticated and online, sync with Firebase
+      // The repository publishes the merged list to this screen
       if (user) {
         try {
           await firebaseService.syncAccounts(user.uid);
-          // Reload after sync
-          const updatedAccounts = await storageService.loadAccounts();
-          setAccounts(updatedAccounts);
         } catch (syncError) {
           console.warn('Sync failed, using local data:', syncError);
         }
@@ -72,11 +94,9 @@ const HomeScreen: React.FC = () => {
       if (user) {
         // Force sync with cloud
         await firebaseService.syncAccounts(user.uid);
-        const updatedAccounts = await storageService.loadAccounts();
-        setAccounts(updatedAccounts);
       } else {
         // Just reload local data
-        await loadAccounts();
+        await repository.reload();
       }
     } catch (error) {
       console.error('Refresh failed:', error);
@@ -86,39 +106,11 @@ const HomeScreen: React.FC = () => {
     }
   }, [user, loadAccounts, resetSessionTimer]);
 
-  // Sample data for demonstration - In production, this would come from storage/Firebase
+  // Load accounts on mount
   useEffect(() => {
     loadAccounts();
   }, [loadAccounts]);
 
-  const loadSampleAccounts = () => {
-    const sampleAccounts: LocalTOTPAccount[] = [
-      {
-        id: '1',
-        serviceName: 'Google',
-        accountName: 'user@gmail.com',
-        secret: 'JBSWY3DPEHPK3PXP', // This is a test secret
-        algorithm: 'SHA1',
-        digits: 6,
-        period: 30,
-        syncStatus: 'synced',
-        lastModified: Date.now(),
-      },
-      {
-        id: '2',
-        serviceName: 'GitHub',
-        accountName: 'developer',
-        secret: 'HXDMVJECJJWSRB3HWIZR4IFUGFTMXBOZ', // This is a test secret
-        algorithm: 'SHA1',
-        digits: 6,
-        period: 30,
-        syncStatus: 'synced',
-        lastModified: Date.now(),
-      },
-    ];
-    setAccounts(sampleAccounts);
-  };
-
   const handleLogout = async () => {
     Alert.alert(
       'Sign Out',
@@ -139,33 +131,40 @@ const HomeScreen: React.FC = () => {
     );
   };
 
-  const handleAddAccount = (accountData: Omit<LocalTOTPAccount, 'id' | 'lastModified' | 'syncStatus'>) => {
-    const newAccount: LocalTOTPAccount = {
-      ...accountData,
-      id: Date.now().toString(),
-      lastModified: Date.now(),
-      syncStatus: 'pending',
-    };
-
-    setAccounts(prev => [...prev, newAccount]);
-    setShowAddForm(false);
-    Alert.alert('Success', 'Account added successfully!');
+  const handleAddAccount = async (accountData: AccountInput) => {
+    try {
+      await repository.addAccount(accountData);
+      setShowAddForm(false);
+      Alert.alert('Success', 'Account added successfully!');
+    } catch (error) {
+      console.error('Failed to add account:', error);
+      Alert.alert('Error', 'Failed to save account');
+    }
   };
 
-  const handleEditAccount = (accountData: Omit<LocalTOTPAccount, 'id' | 'lastModified' | 'syncStatus'>) => {
+  const handleEditAccount = async (accountData: AccountInput) => {
     if (editingAccount) {
-      const updatedAccount: LocalTOTPAccount = {
-        ...accountData,
-        id: editingAccount.id,
-        lastModified: Date.now(),
-        syncStatus: 'pending',
-      };
-
-      setAccounts(prev =>
-        prev.map(account => account.id === editingAccount.id ? updatedAccount : account)
-      );
-      setEditingAccount(null);
-      Alert.alert('Success', 'Account updated successfully!');
+      try {
+        await repository.updateAccount(editingAccount.id, accountData);
+        setEditingAccount(null);
+        Alert.alert('Success', 'Account updated successfully!');
+      } catch (error) {
+        console.error('Failed to update account:', error);
+        Alert.alert('Error', 'Failed to save account');
+      }
+    }
+  };
+
+  const handleResyncCounter = async (counter: number) => {
+    if (resyncAccount) {
+      try {
+        await repository.updateAccount(resyncAccount.id, { counter });
+        setResyncAccount(null);
+        Alert.alert('Success', `Counter resynchronized to ${counter}`);
+      } catch (error) {
+        console.error('Failed to resync counter:', error);
+        Alert.alert('Error', 'Failed to save counter');
+      }
     }
   };
 
@@ -178,9 +177,14 @@ const HomeScreen: React.FC = () => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            setAccounts(prev => prev.filter(account => account.id !== accountId));
-            Alert.alert('Success', 'Account deleted successfully!');
+          onPress: async () => {
+            try {
+              await repository.deleteAccount(accountId);
+              Alert.alert('Success', 'Account deleted successfully!');
+            } catch (error) {
+              console.error('Failed to delete account:', error);
+              Alert.alert('Error', 'Failed to delete account');
+            }
           },
         },
       ]
@@ -189,19 +193,70 @@ const HomeScreen: React.FC = () => {
 
   const handleQRScanSuccess = (result: QRCodeResult) => {
     setShowQRScanner(false);
+    handleAddAccount(accountFromQRCode(result));
+  };
 
-    const accountData: Omit<LocalTOTPAccount, 'id' | 'lastModified' | 'syncStatus'> = {
-      serviceName: result.label.split(':')[0] || 'Unknown Service',
-      accountName: result.label.split(':')[1] || result.label,
-      secret: result.secret,
-      algorithm: result.algorithm || 'SHA1',
-      digits: result.digits || 6,
-      period: result.period || 30,
-    };
+  const handleImportBatch = (batch: ImportBatch) => {
+    setShowQRScanner(false);
+    if (batch.accounts.length === 0) {
+      Alert.alert(
+        'Nothing to Import',
+        ['This export has no accounts that can be imported.', ...batch.unsupported].join('\n')
+      );
+      return;
+    }
+    setImportBatch(batch);
+  };
+
+  const handlePickImportFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        // Backup extensions like .2fas and .aes have no registered MIME type
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
 
-    handleAddAccount(accountData);
+      // Read as Base64 because encrypted andOTP backups are binary
+      const file = picked.assets[0];
+      const contents = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const backup = identifyBackup(file.name, base64ToBytes(contents));
+      if (backup.encrypted) {
+        setEncryptedBackup(backup);
+        return;
+      }
+      handleImportBatch(await importBackup(backup));
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      Alert.alert(
+        'Import Failed',
+        error instanceof Error ? error.message : 'Failed to read the selected file'
+      );
+    }
+  };
+
+  // A wrong password throws, which keeps the prompt open with the error shown
+  const handleUnlockImport = async (password: string) => {
+    if (!encryptedBackup) return;
+    const batch = await importBackup(encryptedBackup, password);
+    setEncryptedBackup(null);
+    handleImportBatch(batch);
   };
 
+  const handleImportAccounts = async (importedAccounts: AccountInput[]) => {
+    await repository.addAccounts(importedAccounts);
+    setImportBatch(null);
+    Alert.alert(
+      'Success',
+      `Imported ${importedAccounts.length} ${importedAccounts.length === 1 ? 'account' : 'accounts'}`
+    );
+  };
+
+  // Looked up by id so the counter shown stays current after each response
+  const challengeAccount = accounts.find(account => account.id === challengeAccountId);
+
   const filteredAccounts = accounts.filter(account =>
     account.serviceName.toLowerCase().includes(searchQuery.toLowerCase()) ||
     account.accountName.toLowerCase().includes(searchQuery.toLowerCase())
@@ -210,8 +265,11 @@ const HomeScreen: React.FC = () => {
   const renderAccountItem = ({ item }: { item: LocalTOTPAccount }) => (
     <TOTPItem
       account={item}
+      onNextCode={() => repository.advanceCounter(item.id)}
       onPress={() => {
-        // Handle account selection if needed
+        if (item.type === 'ocra') {
+          setChallengeAccountId(item.id);
+        }
       }}
       onLongPress={() => {
         Alert.alert(
@@ -220,6 +278,9 @@ const HomeScreen: React.FC = () => {
           [
             { text: 'Cancel', style: 'cancel' },
             { text: 'Edit', onPress: () => setEditingAccount(item) },
+            ...(item.type === 'hotp'
+              ? [{ text: 'Resync Counter', onPress: () => setResyncAccount(item) }]
+              : []),
             { text: 'Delete', style: 'destructive', onPress: () => handleDeleteAccount(item.id) },
           ]
         );
@@ -234,11 +295,39 @@ const HomeScreen: React.FC = () => {
 
         <View style={styles.header}>
           <Text style={styles.title}>Authenticator</Text>
-          <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
-            <Text style={styles.logoutButtonText}>Sign Out</Text>
-          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity style={styles.exportButton} onPress={handlePickImportFile}>
+              <Text style={styles.logoutButtonText}>Import</Text>
+            </TouchableOpacity>
+            {accounts.length > 0 && (
+              <TouchableOpacity style={styles.exportButton} onPress={() => setShowExport(true)}>
+                <Text style={styles.logoutButtonText}>Export</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+              <Text style={styles.logoutButtonText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
+        {liveSyncError && (
+          <View style={styles.syncErrorBanner}>
+            <Text style={styles.syncErrorText}>
+              Live updates paused: {liveSyncError}. Pull to sync.
+            </Text>
+          </View>
+        )}
+
+        {isClockDrifted && (
+          <View style={styles.syncErrorBanner}>
+            <Text style={styles.syncErrorText}>
+              Your device clock is {formatClockDrift(clockOffsetMs)}. Codes are
+              corrected automatically, but you should fix the time in your
+              system settings.
+            </Text>
+          </View>
+        )}
+
         {accounts.length > 0 && (
           <View style={styles.searchContainer}>
             <TextInput
@@ -318,6 +407,36 @@ const HomeScreen: React.FC = () => {
           />
         </Modal>
 
+        {/* HOTP Resync Modal */}
+        <Modal
+          visible={resyncAccount !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+        >
+          {resyncAccount && (
+            <HOTPResyncForm
+              account={resyncAccount}
+              onResync={handleResyncCounter}
+              onCancel={() => setResyncAccount(null)}
+            />
+          )}
+        </Modal>
+
+        {/* OCRA Challenge Modal */}
+        <Modal
+          visible={challengeAccount !== undefined}
+          animationType="slide"
+          presentationStyle="pageSheet"
+        >
+          {challengeAccount && (
+            <OCRAChallengeForm
+              account={challengeAccount}
+              onNextCounter={() => repository.advanceCounter(challengeAccount.id)}
+              onClose={() => setChallengeAccountId(null)}
+            />
+          )}
+        </Modal>
+
         {/* QR Scanner Modal */}
         <Modal
           visible={showQRScanner}
@@ -326,9 +445,56 @@ const HomeScreen: React.FC = () => {
         >
           <QRCodeScanner
             onScanSuccess={handleQRScanSuccess}
+            onMigrationScan={handleImportBatch}
             onCancel={() => setShowQRScanner(false)}
           />
         </Modal>
+
+        {/* Export Modal */}
+        <Modal
+          visible={showExport}
+          animationType="slide"
+          presentationStyle="fullScreen"
+        >
+          <MigrationExport
+            accounts={accounts}
+            onClose={() => setShowExport(false)}
+          />
+        </Modal>
+
+        {/* Encrypted Import Password Modal */}
+        <Modal
+          visible={encryptedBackup !== null}
+          animationType="fade"
+          transparent={true}
+        >
+          <PasswordPrompt
+            title="Encrypted Backup"
+            message={`Enter the password used to encrypt this ${
+              encryptedBackup ? BACKUP_FORMAT_NAMES[encryptedBackup.format] : ''
+            } backup.`}
+            onSubmit={handleUnlockImport}
+            onCancel={() => setEncryptedBackup(null)}
+          />
+        </Modal>
+
+        {/* Import Preview Modal */}
+        <Modal
+          visible={importBatch !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+        >
+          {importBatch && (
+            <ImportPreview
+              title="Import Accounts"
+              accounts={importBatch.accounts}
+              unsupported={importBatch.unsupported}
+              existingAccounts={accounts}
+              onImport={handleImportAccounts}
+              onCancel={() => setImportBatch(null)}
+            />
+          )}
+        </Modal>
       </SafeAreaView>
     </ActivityDetector>
   );
@@ -353,6 +519,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2c2c2c',
   },
+  headerButtons: {
+    flexDirection: 'row',
+  },
+  exportButton: {
+    backgroundColor: '#3742fa',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginRight: 8,
+  },
   logoutButton: {
     backgroundColor: '#ff4757',
     paddingHorizontal: 16,
@@ -364,6 +540,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  syncErrorBanner: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff3cd',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ffe08a',
+  },
+  syncErrorText: {
+    fontSize: 13,
+    color: '#8a6d00',
+  },
   searchContainer: {
     padding: 16,
     backgroundColor: '#ffffff',
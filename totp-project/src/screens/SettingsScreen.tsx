@@ -14,6 +14,10 @@ import { StatusBar } from 'expo-status-bar';
 import { useAuth } from '@/contexts/AuthContext';
 import { StorageService } from '@/services/StorageService';
 import { FirebaseService } from '@/services/FirebaseService';
+import { QueuedOperation } from '@/services/OfflineQueue';
+import { useAccounts } from '@/hooks/useAccounts';
+import { SyncConflictResolver } from '@/components/SyncConflictResolver';
+import { AccountConflict, ConflictChoice, SyncedField } from '@/types';
 
 interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
@@ -26,6 +30,7 @@ interface UserPreferences {
 
 const SettingsScreen: React.FC = () => {
   const { user, logOut } = useAuth();
+  const { accounts, repository } = useAccounts();
   const [preferences, setPreferences] = useState<UserPreferences>({
     theme: 'system',
     autoLock: false,
@@ -37,15 +42,24 @@ const SettingsScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [syncStatus, setSyncStatus] = useState<any>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [conflicts, setConflicts] = useState<AccountConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   const storageService = StorageService.getInstance();
   const firebaseService = FirebaseService.getInstance();
 
   useEffect(() => {
     loadPreferences();
-    loadSyncStatus();
+    repository.load().catch(error => {
+      console.error('Failed to load accounts:', error);
+    });
   }, []);
 
+  // Refresh sync statistics whenever the shared account list changes
+  useEffect(() => {
+    loadSyncStatus();
+  }, [accounts]);
+
   const loadPreferences = async () => {
     try {
       const savedPreferences = await storageService.loadUserPreferences();
@@ -64,6 +78,7 @@ const SettingsScreen: React.FC = () => {
         if (result.success) {
           setSyncStatus(result.data);
         }
+        setConflicts(await firebaseService.getSyncConflicts());
       } catch (error) {
         console.error('Failed to load sync status:', error);
       }
@@ -105,15 +120,52 @@ const SettingsScreen: React.FC = () => {
     savePreferences(newPreferences);
   };
 
-  const handleSync = async () => {
+  const handleFailedOperation = (operation: QueuedOperation) => {
+    const account = accounts.find(acc => acc.id === operation.accountId);
+    const name = account ? account.serviceName : 'Deleted account';
+
+    Alert.alert(
+      'Sync Change Failed',
+      `Could not ${operation.type} "${name}" after ${operation.attempts} attempts.\n\n${operation.lastError || 'Unknown error'}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await firebaseService.discardQueuedOperation(operation.id);
+            loadSyncStatus();
+          },
+        },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            if (!user) return;
+            await firebaseService.retryQueuedOperation(user.uid, operation.id);
+            loadSyncStatus();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSync = async (fullResync = false) => {
     if (!user) return;
 
     setIsLoading(true);
     try {
-      const result = await firebaseService.syncAccounts(user.uid);
-      if (result.success) {
+      const result = await firebaseService.syncAccounts(user.uid, { fullResync });
+      if (result.success && result.data?.conflicts > 0) {
+        Alert.alert(
+          'Sync Complete',
+          `${result.data.conflicts} account(s) were changed on another device too and need your review.`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Review', onPress: () => setShowConflicts(true) },
+          ]
+        );
+      } else if (result.success) {
         Alert.alert('Sync Complete', 'Your accounts have been synchronized successfully.');
-        await loadSyncStatus();
       } else {
         Alert.alert('Sync Failed', result.message || 'Failed to sync accounts');
       }
@@ -124,9 +176,37 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  const handleResolveConflict = async (
+    accountId: string,
+    choices: Partial<Record<SyncedField, ConflictChoice>>
+  ) => {
+    if (!user) return;
+
+    const result = await firebaseService.resolveSyncConflict(user.uid, accountId, choices);
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to resolve conflict');
+    }
+
+    const remaining = await firebaseService.getSyncConflicts();
+    setConflicts(remaining);
+    if (remaining.length === 0) {
+      setShowConflicts(false);
+    }
+  };
+
+  const handleFullResync = () => {
+    Alert.alert(
+      'Full Resync',
+      'Download every account from the cloud instead of only recent changes?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Resync', onPress: () => handleSync(true) },
+      ]
+    );
+  };
+
   const handleExportData = async () => {
     try {
-      const accounts = await storageService.loadAccounts();
       const exportData = {
         accounts: accounts.map(acc => ({
           serviceName: acc.serviceName,
@@ -152,6 +232,7 @@ const SettingsScreen: React.FC = () => {
 
   const handleDeleteAllData = async () => {
     try {
+      await repository.clear();
       await storageService.clearAllData();
       firebaseService.unsubscribeAll();
       Alert.alert('Data Deleted', 'All local data has been deleted. You will be signed out.', [
@@ -162,6 +243,9 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  const queuedCount: number = syncStatus?.queuedOperations || 0;
+  const failedOperations: QueuedOperation[] = syncStatus?.failedOperations || [];
+
   const formatSyncTime = (timestamp: number) => {
     if (!timestamp) return 'Never';
     return new Date(timestamp).toLocaleString();
@@ -185,10 +269,15 @@ const SettingsScreen: React.FC = () => {
               <Text style={styles.itemValue}>{user?.email}</Text>
             </View>
             <View style={styles.divider} />
-            <TouchableOpacity style={styles.item} onPress={handleSync} disabled={isLoading}>
+            <TouchableOpacity style={styles.item} onPress={() => handleSync()} disabled={isLoading}>
               <Text style={styles.itemLabel}>Sync Now</Text>
               <Text style={styles.itemValue}>{isLoading ? 'Syncing...' : 'Tap to sync'}</Text>
             </TouchableOpacity>
+            <View style={styles.divider} />
+            <TouchableOpacity style={styles.item} onPress={handleFullResync} disabled={isLoading}>
+              <Text style={styles.itemLabel}>Full Resync</Text>
+              <Text style={styles.itemValue}>Download everything</Text>
+            </TouchableOpacity>
             {syncStatus && (
               <>
                 <View style={styles.divider} />
@@ -200,11 +289,48 @@ const SettingsScreen: React.FC = () => {
                 <View style={styles.item}>
                   <Text style={styles.itemLabel}>Accounts</Text>
                   <Text style={styles.itemValue}>
-                    {syncStatus.totalAccounts} local, {syncStatus.cloudAccounts} cloud
+                    {syncStatus.totalAccounts} local,{' '}
+                    {syncStatus.cloudAccounts === null
+                      ? 'cloud unavailable'
+                      : `${syncStatus.cloudAccounts} cloud`}
                   </Text>
                 </View>
               </>
             )}
+            {queuedCount > 0 && (
+              <>
+                <View style={styles.divider} />
+                <View style={styles.item}>
+                  <Text style={styles.itemLabel}>Pending Changes</Text>
+                  <Text style={styles.itemValue}>{queuedCount} waiting for connection</Text>
+                </View>
+              </>
+            )}
+            {failedOperations.map(operation => (
+              <React.Fragment key={operation.id}>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.item}
+                  onPress={() => handleFailedOperation(operation)}
+                >
+                  <Text style={[styles.itemLabel, styles.dangerText]}>
+                    Failed {operation.type}
+                  </Text>
+                  <Text style={styles.itemValue} numberOfLines={1}>
+                    {operation.lastError || 'Tap to review'}
+                  </Text>
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+            {conflicts.length > 0 && (
+              <>
+                <View style={styles.divider} />
+                <TouchableOpacity style={styles.item} onPress={() => setShowConflicts(true)}>
+                  <Text style={[styles.itemLabel, styles.dangerText]}>Sync Conflicts</Text>
+                  <Text style={styles.itemValue}>{conflicts.length} to review</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         </View>
 
@@ -309,6 +435,20 @@ const SettingsScreen: React.FC = () => {
         </View>
       </ScrollView>
 
+      {/* Sync Conflicts Modal */}
+      <Modal
+        visible={showConflicts}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SyncConflictResolver
+          conflicts={conflicts}
+          accounts={accounts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflicts(false)}
+        />
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         visible={showDeleteConfirm}
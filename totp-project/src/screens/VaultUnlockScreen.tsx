@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useAuth } from '@/contexts/AuthContext';
+import { SECURITY } from '@/utils/constants';
+
+interface FormErrors {
+  passphrase?: string;
+  confirmPassphrase?: string;
+}
+
+const VaultUnlockScreen: React.FC = () => {
+  const { hasVault, setupVault, unlockVault, logOut } = useAuth();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isSetup = !hasVault;
+
+  // Start over when setup finds a vault created on another device
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setErrors({});
+  }, [hasVault]);
+
+  // Form validation
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!passphrase) {
+      newErrors.passphrase = 'Passphrase is required';
+    } else if (isSetup && passphrase.length < SECURITY.PASSWORD_MIN_LENGTH) {
+      newErrors.passphrase = `Passphrase must be at least ${SECURITY.PASSWORD_MIN_LENGTH} characters`;
+    }
+
+    if (isSetup) {
+      if (!confirmPassphrase) {
+        newErrors.confirmPassphrase = 'Please confirm your passphrase';
+      } else if (passphrase !== confirmPassphrase) {
+        newErrors.confirmPassphrase = 'Passphrases do not match';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setIsWorking(true);
+    try {
+      const result = isSetup
+        ? await setupVault(passphrase)
+        : await unlockVault(passphrase);
+
+      if (!result.success) {
+        Alert.alert('Error', result.message);
+      }
+    } catch (error) {
+      console.error('Vault error:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <StatusBar style="dark" />
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {isSetup ? 'Create Vault Passphrase' : 'Unlock Vault'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {isSetup
+              ? 'Your secrets are encrypted with this passphrase before they are synced. It never leaves your device and cannot be recovered if lost.'
+              : 'Enter your vault passphrase to decrypt accounts synced from your other devices'}
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Passphrase</Text>
+            <View style={styles.passwordContainer}>
+              <TextInput
+                style={[styles.passwordInput, errors.passphrase && styles.inputError]}
+                value={passphrase}
+                onChangeText={(value) => {
+                  setPassphrase(value);
+                  setErrors(prev => ({ ...prev, passphrase: undefined }));
+                }}
+                placeholder="Enter your vault passphrase"
+                secureTextEntry={!showPassphrase}
+                autoCapitalize="none"
+                autoCorrect={false}
+                textContentType="password"
+              />
+              <TouchableOpacity
+                style={styles.passwordToggle}
+                onPress={() => setShowPassphrase(!showPassphrase)}
+              >
+                <Text style={styles.passwordToggleText}>
+                  {showPassphrase ? 'Hide' : 'Show'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {errors.passphrase && <Text style={styles.errorText}>{errors.passphrase}</Text>}
+          </View>
+
+          {isSetup && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Confirm Passphrase</Text>
+              <TextInput
+                style={[styles.input, errors.confirmPassphrase && styles.inputError]}
+                value={confirmPassphrase}
+                onChangeText={(value) => {
+                  setConfirmPassphrase(value);
+                  setErrors(prev => ({ ...prev, confirmPassphrase: undefined }));
+                }}
+                placeholder="Confirm your vault passphrase"
+                secureTextEntry={!showPassphrase}
+                autoCapitalize="none"
+                autoCorrect={false}
+                textContentType="password"
+              />
+              {errors.confirmPassphrase && (
+                <Text style={styles.errorText}>{errors.confirmPassphrase}</Text>
+              )}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, isWorking && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isWorking}
+          >
+            {isWorking ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {isSetup ? 'Create Vault' : 'Unlock'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.links}>
+            <TouchableOpacity onPress={() => logOut()}>
+              <Text style={styles.linkText}>
+                Not you? <Text style={styles.linkTextBold}>Sign Out</Text>
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  form: {
+    gap: 16,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  inputError: {
+    borderColor: '#EF4444',
+  },
+  passwordContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  passwordInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  passwordToggle: {
+    position: 'absolute',
+    right: 16,
+    padding: 4,
+  },
+  passwordToggleText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+  submitButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  links: {
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 24,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  linkTextBold: {
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+});
+
+export default VaultUnlockScreen;
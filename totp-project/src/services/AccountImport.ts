@@ -0,0 +1,87 @@
+import { LocalTOTPAccount, QRCodeResult } from '@/types';
+import { AccountInput } from './AccountRepository';
+import { TOTPService } from './TOTPService';
+
+/**
+ * Accounts read from an import source, before the user confirms them
+ */
+export interface ImportBatch {
+  accounts: AccountInput[];
+  unsupported: string[]; // entries that were skipped, with the reason
+}
+
+/**
+ * Build an account from a parsed otpauth:// URL or migration entry
+ * Prefers the issuer parameter; the label is "Issuer:account" or just "account"
+ */
+export const accountFromQRCode = (result: QRCodeResult): AccountInput => {
+  const separator = result.label.indexOf(':');
+  const labelIssuer =
+    separator >= 0 ? result.label.slice(0, separator).trim() : '';
+  const labelAccount =
+    separator >= 0 ? result.label.slice(separator + 1).trim() : result.label;
+
+  return {
+    serviceName: result.issuer || labelIssuer || 'Unknown Service',
+    accountName: labelAccount || result.label,
+    secret: result.secret,
+    algorithm: result.algorithm || 'SHA1',
+    digits: result.digits || 6,
+    period: result.period || 30,
+    type: result.type,
+    counter: result.type === 'hotp' ? (result.counter ?? 0) : undefined,
+    encoder: result.encoder,
+  };
+};
+
+/**
+ * Canonical form of a Base32 secret for comparisons
+ */
+const secretKey = (secret: string): string =>
+  secret.replace(/[\s=]/g, '').toUpperCase();
+
+/**
+ * Whether an account with the same secret and type already exists
+ */
+export const isDuplicate = (
+  account: Pick<AccountInput, 'secret' | 'type'>,
+  existing: Pick<LocalTOTPAccount, 'secret' | 'type'>[]
+): boolean =>
+  existing.some(
+    other =>
+      secretKey(other.secret) === secretKey(account.secret) &&
+      (other.type || 'totp') === (account.type || 'totp')
+  );
+
+/**
+ * Build an account from an otpauth:// URI, validated like a scanned QR code
+ */
+export const accountFromOTPAuthURL = (url: string): AccountInput =>
+  accountFromQRCode(TOTPService.getInstance().parseOTPAuthURL(url));
+
+/**
+ * Message of an error thrown while reading one import entry
+ */
+export const importErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Read a text file with one otpauth:// URI per line
+ * Blank lines and # comments are skipped; bad lines are reported by number.
+ */
+export const importOTPAuthList = (contents: string): ImportBatch => {
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+
+  contents.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    try {
+      batch.accounts.push(accountFromOTPAuthURL(line));
+    } catch (error) {
+      batch.unsupported.push(`Line ${index + 1}: ${importErrorMessage(error)}`);
+    }
+  });
+
+  return batch;
+};
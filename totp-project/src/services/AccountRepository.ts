@@ -0,0 +1,385 @@
+import * as Crypto from 'expo-crypto';
+import { AccountTombstone, LocalTOTPAccount } from '@/types';
+import { StorageService } from './StorageService';
+import { SYNCED_FIELDS, assignField } from './SyncMerge';
+
+export type AccountInput = Omit<
+  LocalTOTPAccount,
+  'id' | 'lastModified' | 'syncStatus'
+>;
+
+export type AccountsListener = (accounts: LocalTOTPAccount[]) => void;
+
+const tombstoneKey = (tombstone: AccountTombstone): string =>
+  `${tombstone.id}:${tombstone.deletedAt}`;
+
+/**
+ * Keep the higher HOTP counter of two copies so a used counter is never reused
+ */
+const withHigherCounter = (
+  account: LocalTOTPAccount,
+  other: LocalTOTPAccount
+): LocalTOTPAccount =>
+  account.counter === undefined && other.counter === undefined
+    ? account
+    : {
+        ...account,
+        counter: Math.max(account.counter ?? 0, other.counter ?? 0),
+      };
+
+/**
+ * Combine a sync result with local edits made while the sync ran
+ * Fields edited locally since the snapshot keep the local value
+ */
+const mergeConcurrentEdit = (
+  original: LocalTOTPAccount,
+  latest: LocalTOTPAccount,
+  synced: LocalTOTPAccount
+): LocalTOTPAccount => {
+  const result: LocalTOTPAccount = { ...latest };
+  for (const field of SYNCED_FIELDS) {
+    if (latest[field] === original[field]) {
+      assignField(result, field, synced[field]);
+    }
+  }
+  return { ...withHigherCounter(result, synced), syncStatus: 'pending' };
+};
+
+/**
+ * Account Repository
+ * Owns the in-memory list of TOTP accounts, persists every mutation through
+ * StorageService and notifies subscribers so all screens share one source of truth
+ */
+export class AccountRepository {
+  private static instance: AccountRepository;
+  private storageService: StorageService;
+  private accounts: LocalTOTPAccount[] = [];
+  private isLoaded = false;
+  private listeners = new Set<AccountsListener>();
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  public static getInstance(): AccountRepository {
+    if (!AccountRepository.instance) {
+      AccountRepository.instance = new AccountRepository();
+    }
+    return AccountRepository.instance;
+  }
+
+  /**
+   * Subscribe to account list changes
+   * The listener is called immediately with the current list
+   */
+  public subscribe(listener: AccountsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.accounts);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the current account list
+   */
+  public getAccounts(): LocalTOTPAccount[] {
+    return this.accounts;
+  }
+
+  /**
+   * Get a single account by id
+   */
+  public getAccount(accountId: string): LocalTOTPAccount | undefined {
+    return this.accounts.find(account => account.id === accountId);
+  }
+
+  /**
+   * Load accounts from storage on first use
+   */
+  public async load(): Promise<LocalTOTPAccount[]> {
+    if (this.isLoaded) {
+      return this.accounts;
+    }
+    return this.reload();
+  }
+
+  /**
+   * Re-read accounts from storage (e.g. after a sync wrote to it)
+   */
+  public async reload(): Promise<LocalTOTPAccount[]> {
+    return this.enqueue(async () => {
+      this.accounts = await this.storageService.loadAccounts();
+      this.isLoaded = true;
+      this.notify();
+      return this.accounts;
+    });
+  }
+
+  /**
+   * Add a new account, marked pending for the next sync
+   * The UUIDv4 id is also used as the Firestore document id
+   */
+  public async addAccount(input: AccountInput): Promise<LocalTOTPAccount> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const account: LocalTOTPAccount = {
+        ...input,
+        id: Crypto.randomUUID(),
+        lastModified: Date.now(),
+        syncStatus: 'pending',
+      };
+
+      await this.commit([...this.accounts, account]);
+      return account;
+    });
+  }
+
+  /**
+   * Add several accounts in one write, e.g. from an import
+   */
+  public async addAccounts(
+    inputs: AccountInput[]
+  ): Promise<LocalTOTPAccount[]> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const now = Date.now();
+      const added: LocalTOTPAccount[] = inputs.map(input => ({
+        ...input,
+        id: Crypto.randomUUID(),
+        lastModified: now,
+        syncStatus: 'pending',
+      }));
+
+      await this.commit([...this.accounts, ...added]);
+      return added;
+    });
+  }
+
+  /**
+   * Update an existing account, marked pending for the next sync
+   */
+  public async updateAccount(
+    accountId: string,
+    updates: Partial<AccountInput>
+  ): Promise<LocalTOTPAccount> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const existing = this.getAccount(accountId);
+      if (!existing) {
+        throw new Error(`Account ${accountId} not found`);
+      }
+
+      const updated: LocalTOTPAccount = {
+        ...existing,
+        ...updates,
+        id: accountId,
+        lastModified: Date.now(),
+        syncStatus: 'pending',
+      };
+
+      await this.commit(
+        this.accounts.map(account =>
+          account.id === accountId ? updated : account
+        )
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * Reserve the next counter value of an HOTP or OCRA account
+   * The incremented counter is persisted before the reserved value is returned,
+   * so a code is never shown for a counter that could be handed out again
+   */
+  public async advanceCounter(accountId: string): Promise<number> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const existing = this.getAccount(accountId);
+      if (!existing || (existing.type !== 'hotp' && existing.type !== 'ocra')) {
+        throw new Error(`Counter-based account ${accountId} not found`);
+      }
+
+      const counter = existing.counter ?? 0;
+      await this.commit(
+        this.accounts.map(account =>
+          account.id === accountId
+            ? {
+                ...account,
+                counter: counter + 1,
+                lastModified: Date.now(),
+                syncStatus: 'pending' as const,
+              }
+            : account
+        )
+      );
+      return counter;
+    });
+  }
+
+  /**
+   * Delete an account, leaving a tombstone so the delete reaches the cloud
+   */
+  public async deleteAccount(accountId: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const tombstones = await this.storageService.loadTombstones();
+      await this.storageService.saveTombstones([
+        ...tombstones.filter(tombstone => tombstone.id !== accountId),
+        { id: accountId, deletedAt: Date.now(), syncStatus: 'pending' },
+      ]);
+      await this.commit(
+        this.accounts.filter(account => account.id !== accountId)
+      );
+    });
+  }
+
+  /**
+   * Apply the result of a sync that started from `snapshot`
+   * Accounts are merged per id against the list as it is now, so edits, counter
+   * advances, adds and deletes made while the sync was in flight survive:
+   * - added during the sync: kept
+   * - deleted during the sync: stays deleted
+   * - edited during the sync: the local edits win field by field over the
+   *   sync's result and the account stays pending
+   * - HOTP counters always keep the higher value
+   */
+  public async applySyncResult(
+    snapshot: LocalTOTPAccount[],
+    merged: LocalTOTPAccount[]
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const before = new Map(snapshot.map(account => [account.id, account]));
+      const current = new Map(
+        this.accounts.map(account => [account.id, account])
+      );
+      const result: LocalTOTPAccount[] = [];
+
+      for (const account of merged) {
+        const original = before.get(account.id);
+        const latest = current.get(account.id);
+        if (!latest) {
+          // Removed locally while syncing, unless the sync downloaded it
+          if (!original) result.push(account);
+          continue;
+        }
+        result.push(
+          original && latest.lastModified > original.lastModified
+            ? mergeConcurrentEdit(original, latest, account)
+            : withHigherCounter(account, latest)
+        );
+      }
+
+      const mergedIds = new Set(merged.map(account => account.id));
+      for (const latest of this.accounts) {
+        if (mergedIds.has(latest.id)) continue;
+        const original = before.get(latest.id);
+        // Keep accounts added, or edited after the sync removed them
+        if (!original || latest.lastModified > original.lastModified) {
+          result.push({ ...latest, syncStatus: 'pending' });
+        }
+      }
+
+      await this.commit(result);
+    });
+  }
+
+  /**
+   * Get deletion tombstones recorded on this device
+   */
+  public async getTombstones(): Promise<AccountTombstone[]> {
+    return this.enqueue(() => this.storageService.loadTombstones());
+  }
+
+  /**
+   * Apply the tombstone list of a sync that started from `snapshot`
+   * Tombstones written while the sync was in flight are kept
+   */
+  public async applySyncTombstones(
+    snapshot: AccountTombstone[],
+    merged: AccountTombstone[]
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      const seen = new Set(snapshot.map(tombstoneKey));
+      const result = new Map(
+        merged.map(tombstone => [tombstone.id, tombstone])
+      );
+      (await this.storageService.loadTombstones())
+        .filter(tombstone => !seen.has(tombstoneKey(tombstone)))
+        .forEach(tombstone => result.set(tombstone.id, tombstone));
+
+      await this.storageService.saveTombstones(Array.from(result.values()));
+    });
+  }
+
+  /**
+   * Set the sync status of the given accounts without touching lastModified
+   */
+  public async markSyncStatus(
+    accountIds: string[],
+    syncStatus: LocalTOTPAccount['syncStatus']
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const ids = new Set(accountIds);
+      await this.commit(
+        this.accounts.map(account =>
+          ids.has(account.id) ? { ...account, syncStatus } : account
+        )
+      );
+    });
+  }
+
+  /**
+   * Forget all accounts in memory and in storage
+   */
+  public async clear(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.storageService.clearAccounts();
+      this.accounts = [];
+      this.isLoaded = true;
+      this.notify();
+    });
+  }
+
+  /**
+   * Make sure a mutation never overwrites storage with an unloaded list
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (!this.isLoaded) {
+      this.accounts = await this.storageService.loadAccounts();
+      this.isLoaded = true;
+    }
+  }
+
+  /**
+   * Persist a new list first, then publish it to subscribers
+   */
+  private async commit(accounts: LocalTOTPAccount[]): Promise<void> {
+    await this.storageService.saveAccounts(accounts);
+    this.accounts = accounts;
+    this.isLoaded = true;
+    this.notify();
+  }
+
+  /**
+   * Run mutations one at a time so concurrent writes cannot interleave
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pendingWrite.then(operation);
+    this.pendingWrite = result.catch(() => undefined);
+    return result;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.accounts);
+      } catch (error) {
+        console.error('Error in accounts listener:', error);
+      }
+    });
+  }
+}
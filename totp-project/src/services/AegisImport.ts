@@ -0,0 +1,253 @@
+import { gcm } from '@noble/ciphers/aes';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { base32ToBytes, base64ToBytes } from '@/utils/crypto';
+import { TOTP_CONFIG } from '@/utils/constants';
+import { AccountInput } from './AccountRepository';
+import { ImportBatch } from './AccountImport';
+import { TOTPService } from './TOTPService';
+
+// Aegis slot types; only password slots can be opened here
+const SLOT_TYPE_PASSWORD = 1;
+const AEGIS_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+
+interface AegisKeyParams {
+  nonce: string; // hex
+  tag: string; // hex
+}
+
+interface AegisSlot {
+  type: number;
+  key: string; // master key, encrypted with the slot key (hex)
+  key_params: AegisKeyParams;
+  n?: number; // scrypt parameters, password slots only
+  r?: number;
+  p?: number;
+  salt?: string; // hex
+}
+
+interface AegisEntry {
+  type: string;
+  name?: string;
+  issuer?: string;
+  note?: string;
+  icon?: string | null; // Base64 image data
+  icon_mime?: string | null;
+  group?: string | null; // vault version 1 and 2
+  groups?: string[]; // vault version 3: group uuids
+  info: {
+    secret?: string; // Base32
+    algo?: string;
+    digits?: number;
+    period?: number;
+    counter?: number;
+    pin?: string; // Yandex and mOTP
+  };
+}
+
+interface AegisDatabase {
+  version: number;
+  entries: AegisEntry[];
+  groups?: { uuid: string; name: string }[];
+}
+
+interface AegisVault {
+  version: number;
+  header: {
+    slots: AegisSlot[] | null;
+    params: AegisKeyParams | null;
+  };
+  db: AegisDatabase | string; // Base64 ciphertext when encrypted
+}
+
+/**
+ * Parse the outer vault file, or throw if it is not an Aegis export
+ */
+const parseVault = (contents: string): AegisVault => {
+  let vault: AegisVault;
+  try {
+    vault = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!vault || typeof vault !== 'object' || !vault.header || !vault.db) {
+    throw new Error('This file is not an Aegis export');
+  }
+  return vault;
+};
+
+/**
+ * Decrypt AES-256-GCM data whose tag is stored separately
+ */
+const openGcm = (
+  key: Uint8Array,
+  params: AegisKeyParams,
+  ciphertext: Uint8Array
+): Uint8Array => {
+  const tag = hexToBytes(params.tag);
+  const sealed = new Uint8Array(ciphertext.length + tag.length);
+  sealed.set(ciphertext);
+  sealed.set(tag, ciphertext.length);
+  return gcm(key, hexToBytes(params.nonce)).decrypt(sealed);
+};
+
+/**
+ * Unwrap the master key with the first password slot the password opens
+ */
+const unlockMasterKey = async (
+  slots: AegisSlot[],
+  password: string
+): Promise<Uint8Array> => {
+  const passwordSlots = slots.filter(slot => slot.type === SLOT_TYPE_PASSWORD);
+  if (passwordSlots.length === 0) {
+    throw new Error('This vault can only be unlocked with biometrics in Aegis');
+  }
+
+  for (const slot of passwordSlots) {
+    const slotKey = await scryptAsync(
+      utf8ToBytes(password),
+      hexToBytes(slot.salt || ''),
+      { N: slot.n || 0, r: slot.r || 0, p: slot.p || 0, dkLen: 32 }
+    );
+    try {
+      return openGcm(slotKey, slot.key_params, hexToBytes(slot.key));
+    } catch {
+      // Wrong password for this slot; GCM authentication failed
+    }
+  }
+
+  throw new Error('Incorrect password');
+};
+
+/**
+ * Map one Aegis entry onto an account, or a reason it cannot be imported
+ */
+const accountFromEntry = (
+  entry: AegisEntry,
+  groupNames: Map<string, string>
+): { account?: AccountInput; unsupported?: string } => {
+  const label =
+    [entry.issuer, entry.name].filter(Boolean).join(': ') || 'Unnamed entry';
+  const info = entry.info || {};
+  const algorithm = (info.algo || 'SHA1').toUpperCase();
+  const totpService = TOTPService.getInstance();
+
+  if (!info.secret) {
+    return { unsupported: `${label}: missing secret` };
+  }
+  if (!['totp', 'hotp', 'steam', 'yandex', 'motp'].includes(entry.type)) {
+    return { unsupported: `${label}: ${entry.type} entries are not supported` };
+  }
+  if (entry.type !== 'motp' && !AEGIS_ALGORITHMS.includes(algorithm)) {
+    return { unsupported: `${label}: ${algorithm} is not supported` };
+  }
+  if ((entry.type === 'yandex' || entry.type === 'motp') && !info.pin) {
+    return { unsupported: `${label}: missing PIN` };
+  }
+  // Aegis stores every secret as Base32, mOTP ones included
+  if (!totpService.validateSecret(info.secret)) {
+    return { unsupported: `${label}: secret is not valid Base32` };
+  }
+
+  const group =
+    entry.group ??
+    entry.groups?.map(uuid => groupNames.get(uuid)).find(Boolean);
+
+  const account: AccountInput = {
+    serviceName: entry.issuer || entry.name || 'Unknown Service',
+    accountName: entry.issuer ? entry.name || '' : '',
+    secret: info.secret.replace(/\s/g, '').toUpperCase(),
+    algorithm,
+    digits: info.digits || TOTP_CONFIG.DEFAULT_DIGITS,
+    period: info.period || TOTP_CONFIG.DEFAULT_PERIOD,
+    iconUrl: entry.icon
+      ? `data:${entry.icon_mime || 'image/png'};base64,${entry.icon}`
+      : undefined,
+    type:
+      entry.type === 'steam' ? 'totp' : (entry.type as AccountInput['type']),
+    group: group || undefined,
+    notes: entry.note || undefined,
+  };
+
+  switch (entry.type) {
+    case 'hotp':
+      account.counter = info.counter ?? 0;
+      break;
+    case 'steam':
+      // The Steam encoder fixes the code length; digits only matter for display
+      account.encoder = 'steam';
+      account.digits = TOTP_CONFIG.DEFAULT_DIGITS;
+      break;
+    case 'motp':
+      // Aegis stores mOTP secrets as Base32 bytes; this app uses the hex text
+      account.secret = bytesToHex(base32ToBytes(account.secret));
+      account.pin = info.pin;
+      break;
+    case 'yandex':
+      account.pin = info.pin;
+      break;
+  }
+
+  if (!totpService.validateSecret(account.secret, account.type)) {
+    return { unsupported: `${label}: secret is too short for ${entry.type}` };
+  }
+  return { account };
+};
+
+/**
+ * Whether an Aegis export needs a password
+ */
+export const isEncryptedAegisVault = (contents: string): boolean =>
+  typeof parseVault(contents).db === 'string';
+
+/**
+ * Read the accounts of a plain or encrypted Aegis export
+ * Encrypted vaults derive a key per password slot with scrypt; the slot key
+ * unwraps the AES-256-GCM master key that encrypts the database.
+ */
+export const importAegisVault = async (
+  contents: string,
+  password?: string
+): Promise<ImportBatch> => {
+  const vault = parseVault(contents);
+  let database: AegisDatabase;
+
+  if (typeof vault.db === 'string') {
+    if (!password) {
+      throw new Error('This vault is encrypted; enter its password');
+    }
+    if (!vault.header.slots || !vault.header.params) {
+      throw new Error('This vault has no key slots');
+    }
+
+    const masterKey = await unlockMasterKey(vault.header.slots, password);
+    let plaintext: Uint8Array;
+    try {
+      plaintext = openGcm(
+        masterKey,
+        vault.header.params,
+        base64ToBytes(vault.db)
+      );
+    } catch {
+      throw new Error('The vault contents could not be decrypted');
+    }
+    database = JSON.parse(new TextDecoder().decode(plaintext));
+  } else {
+    database = vault.db;
+  }
+
+  if (!Array.isArray(database.entries)) {
+    throw new Error('This file is not an Aegis export');
+  }
+
+  const groupNames = new Map(
+    (database.groups || []).map(group => [group.uuid, group.name])
+  );
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+  for (const entry of database.entries) {
+    const { account, unsupported } = accountFromEntry(entry, groupNames);
+    if (account) batch.accounts.push(account);
+    if (unsupported) batch.unsupported.push(unsupported);
+  }
+  return batch;
+};
@@ -0,0 +1,175 @@
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha1 } from '@noble/hashes/legacy';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { TOTP_CONFIG } from '@/utils/constants';
+import { AccountInput } from './AccountRepository';
+import { ImportBatch } from './AccountImport';
+import { TOTPService } from './TOTPService';
+
+// Layout of a .json.aes file: iterations, salt, IV, then ciphertext and tag
+const ITERATIONS_LENGTH = 4;
+const SALT_LENGTH = 12;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = ITERATIONS_LENGTH + SALT_LENGTH + IV_LENGTH;
+// andOTP writes 140,000-160,000; anything far above that would hang the app
+const MAX_ITERATIONS = 10_000_000;
+const ANDOTP_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+
+interface AndOTPEntry {
+  secret?: string; // Base32
+  issuer?: string;
+  label?: string;
+  digits?: number;
+  type?: string; // TOTP, HOTP, STEAM or MOTP
+  algorithm?: string;
+  period?: number;
+  counter?: number;
+  tags?: string[];
+}
+
+/**
+ * Parse decrypted or plain backup JSON, or throw if it is not an andOTP backup
+ */
+const parseEntries = (contents: string): AndOTPEntry[] => {
+  let entries: AndOTPEntry[];
+  try {
+    entries = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('This file is not an andOTP backup');
+  }
+  return entries;
+};
+
+/**
+ * Decrypt a .json.aes backup with its PBKDF2-SHA1 derived AES-256-GCM key
+ */
+const decryptBackup = async (
+  data: Uint8Array,
+  password: string
+): Promise<string> => {
+  if (data.length <= HEADER_LENGTH) {
+    throw new Error('This andOTP backup is damaged');
+  }
+
+  const iterations = new DataView(
+    data.buffer,
+    data.byteOffset,
+    ITERATIONS_LENGTH
+  ).getUint32(0);
+  if (iterations === 0 || iterations > MAX_ITERATIONS) {
+    throw new Error('This andOTP backup is damaged');
+  }
+  const salt = data.slice(ITERATIONS_LENGTH, ITERATIONS_LENGTH + SALT_LENGTH);
+  const iv = data.slice(ITERATIONS_LENGTH + SALT_LENGTH, HEADER_LENGTH);
+
+  const key = await pbkdf2Async(sha1, utf8ToBytes(password), salt, {
+    c: iterations,
+    dkLen: 32,
+  });
+  try {
+    return new TextDecoder().decode(
+      gcm(key, iv).decrypt(data.slice(HEADER_LENGTH))
+    );
+  } catch {
+    throw new Error('Incorrect password');
+  }
+};
+
+/**
+ * Map one andOTP entry onto an account, or a reason it cannot be imported
+ */
+const accountFromEntry = (
+  entry: AndOTPEntry
+): { account?: AccountInput; unsupported?: string } => {
+  const label =
+    [entry.issuer, entry.label].filter(Boolean).join(': ') || 'Unnamed entry';
+  const type = (entry.type || 'TOTP').toUpperCase();
+  const algorithm = (entry.algorithm || 'SHA1').toUpperCase();
+
+  if (!entry.secret) {
+    return { unsupported: `${label}: missing secret` };
+  }
+  if (type === 'MOTP') {
+    return {
+      unsupported: `${label}: andOTP backups do not include the mOTP PIN`,
+    };
+  }
+  if (!['TOTP', 'HOTP', 'STEAM'].includes(type)) {
+    return { unsupported: `${label}: ${type} entries are not supported` };
+  }
+  if (!ANDOTP_ALGORITHMS.includes(algorithm)) {
+    return { unsupported: `${label}: ${algorithm} is not supported` };
+  }
+  if (!TOTPService.getInstance().validateSecret(entry.secret)) {
+    return { unsupported: `${label}: secret is not valid Base32` };
+  }
+
+  // Older versions kept the issuer inside the label as "Issuer:account"
+  const entryLabel = entry.label || '';
+  const separator = entry.issuer ? -1 : entryLabel.indexOf(':');
+  const account: AccountInput = {
+    serviceName:
+      entry.issuer ||
+      (separator >= 0 ? entryLabel.slice(0, separator).trim() : '') ||
+      'Unknown Service',
+    accountName:
+      separator >= 0 ? entryLabel.slice(separator + 1).trim() : entryLabel,
+    secret: entry.secret.replace(/\s/g, '').toUpperCase(),
+    algorithm,
+    digits: entry.digits || TOTP_CONFIG.DEFAULT_DIGITS,
+    period: entry.period || TOTP_CONFIG.DEFAULT_PERIOD,
+    type: type === 'HOTP' ? 'hotp' : 'totp',
+    group: entry.tags?.[0],
+  };
+
+  if (type === 'HOTP') {
+    account.counter = entry.counter ?? 0;
+  } else if (type === 'STEAM') {
+    account.encoder = 'steam';
+    account.digits = TOTP_CONFIG.DEFAULT_DIGITS;
+  }
+
+  return { account };
+};
+
+/**
+ * Whether andOTP backup data is encrypted (.json.aes) rather than plain JSON
+ */
+export const isEncryptedAndOTPBackup = (data: Uint8Array): boolean => {
+  try {
+    parseEntries(new TextDecoder().decode(data));
+    return false;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Read the accounts of a plain or encrypted andOTP backup
+ */
+export const importAndOTPBackup = async (
+  data: Uint8Array,
+  password?: string
+): Promise<ImportBatch> => {
+  let contents: string;
+  if (isEncryptedAndOTPBackup(data)) {
+    if (!password) {
+      throw new Error('This backup is encrypted; enter its password');
+    }
+    contents = await decryptBackup(data, password);
+  } else {
+    contents = new TextDecoder().decode(data);
+  }
+
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+  for (const entry of parseEntries(contents)) {
+    const { account, unsupported } = accountFromEntry(entry);
+    if (account) batch.accounts.push(account);
+    if (unsupported) batch.unsupported.push(unsupported);
+  }
+  return batch;
+};
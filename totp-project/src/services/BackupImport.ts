@@ -0,0 +1,105 @@
+import { ImportBatch, importOTPAuthList } from './AccountImport';
+import { importAegisVault, isEncryptedAegisVault } from './AegisImport';
+import { import2FASBackup, isEncrypted2FASBackup } from './TwoFASImport';
+import { importAndOTPBackup } from './AndOTPImport';
+import { importBitwardenExport } from './BitwardenImport';
+import { importFreeOTPExport } from './FreeOTPImport';
+
+export type BackupFormat =
+  | 'aegis'
+  | '2fas'
+  | 'andotp'
+  | 'bitwarden'
+  | 'freeotp'
+  | 'otpauth';
+
+/**
+ * A backup file chosen for import, identified but not yet decrypted
+ */
+export interface BackupFile {
+  format: BackupFormat;
+  data: Uint8Array;
+  encrypted: boolean;
+}
+
+export const BACKUP_FORMAT_NAMES: Record<BackupFormat, string> = {
+  aegis: 'Aegis',
+  '2fas': '2FAS',
+  andotp: 'andOTP',
+  bitwarden: 'Bitwarden',
+  freeotp: 'FreeOTP+',
+  otpauth: 'otpauth:// list',
+};
+
+/**
+ * Work out which app wrote a backup or export file
+ * Encrypted andOTP backups are binary, so they are recognised by extension.
+ */
+export const identifyBackup = (
+  fileName: string,
+  data: Uint8Array
+): BackupFile => {
+  const contents = new TextDecoder().decode(data);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    if (fileName.toLowerCase().endsWith('.aes')) {
+      return { format: 'andotp', data, encrypted: true };
+    }
+    if (/^\s*otpauth:\/\//im.test(contents)) {
+      return { format: 'otpauth', data, encrypted: false };
+    }
+    throw new Error('This file is not a supported backup');
+  }
+
+  if (Array.isArray(parsed)) {
+    return { format: 'andotp', data, encrypted: false };
+  }
+  if (parsed && typeof parsed === 'object') {
+    if ('header' in parsed && 'db' in parsed) {
+      return {
+        format: 'aegis',
+        data,
+        encrypted: isEncryptedAegisVault(contents),
+      };
+    }
+    if ('services' in parsed || 'servicesEncrypted' in parsed) {
+      return {
+        format: '2fas',
+        data,
+        encrypted: isEncrypted2FASBackup(contents),
+      };
+    }
+    if ('items' in parsed) {
+      return { format: 'bitwarden', data, encrypted: false };
+    }
+    if ('tokens' in parsed) {
+      return { format: 'freeotp', data, encrypted: false };
+    }
+  }
+  throw new Error('This file is not a supported backup');
+};
+
+/**
+ * Read the accounts of an identified backup, decrypting it with the password
+ */
+export const importBackup = async (
+  file: BackupFile,
+  password?: string
+): Promise<ImportBatch> => {
+  switch (file.format) {
+    case 'aegis':
+      return importAegisVault(new TextDecoder().decode(file.data), password);
+    case '2fas':
+      return import2FASBackup(new TextDecoder().decode(file.data), password);
+    case 'andotp':
+      return importAndOTPBackup(file.data, password);
+    case 'bitwarden':
+      return importBitwardenExport(new TextDecoder().decode(file.data));
+    case 'freeotp':
+      return importFreeOTPExport(new TextDecoder().decode(file.data));
+    case 'otpauth':
+      return importOTPAuthList(new TextDecoder().decode(file.data));
+  }
+};
@@ -0,0 +1,110 @@
+import { AccountInput } from './AccountRepository';
+import {
+  ImportBatch,
+  accountFromOTPAuthURL,
+  importErrorMessage,
+} from './AccountImport';
+import { TOTPService } from './TOTPService';
+
+// Bitwarden item type for logins, the only items with a TOTP field
+const ITEM_TYPE_LOGIN = 1;
+const STEAM_PREFIX = 'steam://';
+
+interface BitwardenItem {
+  type: number;
+  name?: string;
+  notes?: string | null;
+  folderId?: string | null;
+  login?: {
+    username?: string | null;
+    totp?: string | null; // otpauth:// URI, steam:// URI or a bare secret
+  } | null;
+}
+
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: { id: string; name: string }[];
+  items?: BitwardenItem[];
+}
+
+/**
+ * Parse a Bitwarden JSON export, or throw if it cannot be read here
+ */
+const parseExport = (contents: string): BitwardenExport => {
+  let exported: BitwardenExport;
+  try {
+    exported = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!exported || !Array.isArray(exported.items)) {
+    throw new Error('This file is not a Bitwarden export');
+  }
+  if (exported.encrypted) {
+    throw new Error(
+      'Encrypted Bitwarden exports are not supported; export as JSON instead'
+    );
+  }
+  return exported;
+};
+
+/**
+ * Map the TOTP field of a login onto an account
+ * Bare secrets are turned into an otpauth:// URI so they get the same checks.
+ */
+const accountFromItem = (
+  item: BitwardenItem,
+  totp: string,
+  folderNames: Map<string, string>
+): AccountInput => {
+  const name = item.name || '';
+  const username = item.login?.username || '';
+
+  let url = totp;
+  if (!totp.toLowerCase().startsWith('otpauth://')) {
+    const isSteam = totp.toLowerCase().startsWith(STEAM_PREFIX);
+    url = TOTPService.getInstance().createOTPAuthURL(
+      name,
+      username,
+      isSteam ? totp.slice(STEAM_PREFIX.length) : totp,
+      { encoder: isSteam ? 'steam' : undefined }
+    );
+  }
+
+  const account = accountFromOTPAuthURL(url);
+  return {
+    ...account,
+    // The item name is what the user calls this login in Bitwarden
+    serviceName: name || account.serviceName,
+    accountName: account.accountName || username,
+    group: item.folderId ? folderNames.get(item.folderId) : undefined,
+    notes: item.notes || undefined,
+  };
+};
+
+/**
+ * Read the login.totp fields of an unencrypted Bitwarden JSON export
+ * Logins without a TOTP field are skipped; bad ones are reported by position.
+ */
+export const importBitwardenExport = (contents: string): ImportBatch => {
+  const exported = parseExport(contents);
+  const folderNames = new Map(
+    (exported.folders || []).map(folder => [folder.id, folder.name])
+  );
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+
+  (exported.items || []).forEach((item, index) => {
+    const totp = item.login?.totp?.trim();
+    if (item.type !== ITEM_TYPE_LOGIN || !totp) return;
+
+    try {
+      batch.accounts.push(accountFromItem(item, totp, folderNames));
+    } catch (error) {
+      batch.unsupported.push(
+        `Item ${index + 1} (${item.name || 'unnamed'}): ${importErrorMessage(error)}`
+      );
+    }
+  });
+
+  return batch;
+};
@@ -2,6 +2,7 @@ import {
   doc,
   setDoc,
   getDoc,
+  getDocFromServer,
   updateDoc,
   deleteDoc,
   collection,
@@ -13,10 +14,66 @@ import {
   orderBy,
   enableNetwork,
   disableNetwork,
+  writeBatch,
+  runTransaction,
+  getCountFromServer,
+  Timestamp,
 } from 'firebase/firestore';
 import { db, COLLECTIONS } from './firebase';
-import { TOTPAccount, LocalTOTPAccount, ApiResponse } from '@/types';
+import {
+  TOTPAccount,
+  LocalTOTPAccount,
+  AccountTombstone,
+  AccountConflict,
+  ConflictChoice,
+  SyncedAccountFields,
+  SyncedField,
+  ApiResponse,
+  ClockSample,
+} from '@/types';
+import { API, SYNC } from '@/utils/constants';
+import { isTimeoutError, withTimeout } from '@/utils/helpers';
 import { StorageService } from './StorageService';
+import { SyncKeyService } from './SyncKeyService';
+import { AccountRepository } from './AccountRepository';
+import { OfflineQueue, QueuedOperation, isNetworkError } from './OfflineQueue';
+import {
+  MergeResult,
+  SYNCED_FIELDS,
+  applySyncedFields,
+  mergeAccountFields,
+  pickSyncedFields,
+} from './SyncMerge';
+
+// Name of the one-time migration that dedupes accounts with mismatched ids
+const ACCOUNT_ID_MIGRATION = 'account_ids_v1';
+
+// Name of the one-time re-upload of secrets and notes under a user's vault
+// key; v2 also seals notes that were uploaded in plaintext
+const vaultSecretsMigration = (userId: string): string =>
+  `vault_secrets_v2_${userId}`;
+
+// Whether Firestore acknowledged a write or it was queued for a later replay
+type WriteOutcome = 'committed' | 'queued';
+
+/**
+ * A write Firestore did not acknowledge in time
+ * The SDK only holds it in memory, so it is queued durably like a write that
+ * failed to reach the backend
+ */
+class UnacknowledgedWriteError extends Error {
+  constructor(public readonly write: Promise<void>) {
+    super('Write not acknowledged while offline');
+    this.name = 'UnacknowledgedWriteError';
+  }
+}
+
+// A three-way merge as written to the cloud in one transaction
+interface CommittedMerge {
+  result: MergeResult;
+  revision: number; // revision of the cloud document after the write
+  cloudRevision: number; // revision the merge was computed against
+}
 
 /**
  * Firebase Firestore service for TOTP account synchronization
@@ -25,10 +82,20 @@ import { StorageService } from './StorageService';
 export class FirebaseService {
   private static instance: FirebaseService;
   private storageService: StorageService;
+  private syncKeyService: SyncKeyService;
+  private accountRepository: AccountRepository;
+  private offlineQueue: OfflineQueue;
   private unsubscribeCallbacks: Array<() => void> = [];
+  private liveSyncUnsubscribe: (() => void) | null = null;
+  private pendingSync: Promise<unknown> = Promise.resolve();
+  // SDK writes still in flight for queued operations, by operation id
+  private inFlightWrites = new Map<string, Promise<void>>();
 
   private constructor() {
     this.storageService = StorageService.getInstance();
+    this.syncKeyService = SyncKeyService.getInstance();
+    this.accountRepository = AccountRepository.getInstance();
+    this.offlineQueue = OfflineQueue.getInstance();
   }
 
   public static getInstance(): FirebaseService {
@@ -40,36 +107,39 @@ export class FirebaseService {
 
   /**
    * Create a new TOTP account in Firestore
+   * The account id is generated once at creation on the device and reused as
+   * the Firestore document id, so local and cloud copies always match
    */
   public async createAccount(
     userId: string,
-    account: Omit<TOTPAccount, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
-  ): Promise<ApiResponse<string>> {
+    account: Omit<TOTPAccount, 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<ApiResponse<WriteOutcome>> {
     try {
-      const accountId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const accountData: TOTPAccount = {
-        ...account,
-        id: accountId,
-        userId,
-        createdAt: serverTimestamp() as any,
-        updatedAt: serverTimestamp() as any,
-      };
-
-      const accountRef = doc(
-        db,
-        COLLECTIONS.USERS,
-        userId,
-        COLLECTIONS.ACCOUNTS,
-        accountId
-      );
-      await setDoc(accountRef, accountData);
+      await this.writeCreate(userId, account);
 
       return {
         success: true,
-        data: accountId,
+        data: 'committed',
         message: 'Account created successfully',
       };
     } catch (error) {
+      if (isNetworkError(error)) {
+        await this.queueOperation(
+          {
+            type: 'create',
+            userId,
+            accountId: account.id,
+            payload: account,
+          },
+          error
+        );
+        return {
+          success: true,
+          data: 'queued',
+          message: 'Account queued until connectivity returns',
+        };
+      }
+
       console.error('Error creating account:', error);
       return {
         success: false,
@@ -86,27 +156,33 @@ export class FirebaseService {
     userId: string,
     accountId: string,
     updates: Partial<Omit<TOTPAccount, 'id' | 'userId' | 'createdAt'>>
-  ): Promise<ApiResponse> {
+  ): Promise<ApiResponse<WriteOutcome>> {
     try {
-      const accountRef = doc(
-        db,
-        COLLECTIONS.USERS,
-        userId,
-        COLLECTIONS.ACCOUNTS,
-        accountId
-      );
-      const updateData = {
-        ...updates,
-        updatedAt: serverTimestamp(),
-      };
-
-      await updateDoc(accountRef, updateData);
+      await this.writeUpdate(userId, accountId, updates);
 
       return {
         success: true,
+        data: 'committed',
         message: 'Account updated successfully',
       };
     } catch (error) {
+      if (isNetworkError(error)) {
+        await this.queueOperation(
+          {
+            type: 'update',
+            userId,
+            accountId,
+            payload: updates,
+          },
+          error
+        );
+        return {
+          success: true,
+          data: 'queued',
+          message: 'Account update queued until connectivity returns',
+        };
+      }
+
       console.error('Error updating account:', error);
       return {
         success: false,
@@ -118,40 +194,326 @@ export class FirebaseService {
 
   /**
    * Delete a TOTP account from Firestore
+   * A tombstone is written in the same batch so other devices drop their copy;
+   * it records the revision that was deleted so later edits can resurrect it
    */
   public async deleteAccount(
     userId: string,
-    accountId: string
-  ): Promise<ApiResponse> {
+    accountId: string,
+    revision: number,
+    deletedAt: number = Date.now()
+  ): Promise<ApiResponse<WriteOutcome>> {
     try {
-      const accountRef = doc(
+      await this.writeDelete(userId, accountId, revision, deletedAt);
+
+      return {
+        success: true,
+        data: 'committed',
+        message: 'Account deleted successfully',
+      };
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await this.queueOperation(
+          {
+            type: 'delete',
+            userId,
+            accountId,
+            payload: { revision },
+            deletedAt,
+          },
+          error
+        );
+        return {
+          success: true,
+          data: 'queued',
+          message: 'Account deletion queued until connectivity returns',
+        };
+      }
+
+      console.error('Error deleting account:', error);
+      return {
+        success: false,
+        error: 'Failed to delete account',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Write a new account document
+   */
+  private async writeCreate(
+    userId: string,
+    account: Omit<TOTPAccount, 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<void> {
+    const accountData: TOTPAccount = {
+      ...account,
+      userId,
+      createdAt: serverTimestamp() as any,
+      updatedAt: serverTimestamp() as any,
+    };
+
+    const accountRef = doc(
+      db,
+      COLLECTIONS.USERS,
+      userId,
+      COLLECTIONS.ACCOUNTS,
+      account.id
+    );
+    await this.commitWrite(setDoc(accountRef, accountData));
+  }
+
+  /**
+   * Apply updates to an existing account document
+   */
+  private async writeUpdate(
+    userId: string,
+    accountId: string,
+    updates: Partial<Omit<TOTPAccount, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<void> {
+    const accountRef = doc(
+      db,
+      COLLECTIONS.USERS,
+      userId,
+      COLLECTIONS.ACCOUNTS,
+      accountId
+    );
+    const updateData = {
+      ...updates,
+      updatedAt: serverTimestamp(),
+    };
+
+    await this.commitWrite(updateDoc(accountRef, updateData));
+  }
+
+  /**
+   * Delete an account document and write its tombstone in one batch
+   */
+  private async writeDelete(
+    userId: string,
+    accountId: string,
+    revision: number,
+    deletedAt: number
+  ): Promise<void> {
+    const batch = writeBatch(db);
+    batch.set(
+      doc(db, COLLECTIONS.USERS, userId, COLLECTIONS.TOMBSTONES, accountId),
+      { id: accountId, deletedAt, revision, updatedAt: serverTimestamp() }
+    );
+    batch.delete(
+      doc(db, COLLECTIONS.USERS, userId, COLLECTIONS.ACCOUNTS, accountId)
+    );
+    await this.commitWrite(batch.commit());
+  }
+
+  /**
+   * Wait for Firestore to acknowledge a write
+   * Offline writes never reject, they only time out while the SDK keeps them
+   * in memory, so a timeout is thrown as an UnacknowledgedWriteError
+   */
+  private async commitWrite(write: Promise<void>): Promise<void> {
+    try {
+      await withTimeout(write, API.FIRESTORE_TIMEOUT);
+    } catch (error) {
+      if (!isTimeoutError(error)) {
+        throw error;
+      }
+      write.catch(lateError => {
+        console.error('Error committing pending write:', lateError);
+      });
+      throw new UnacknowledgedWriteError(write);
+    }
+  }
+
+  /**
+   * Persist a mutation that could not reach Firestore and schedule a replay
+   * When the SDK still holds the write, the queued copy is dropped once the
+   * server acknowledges it so it is not replayed over later edits
+   */
+  private async queueOperation(
+    operation: Pick<
+      QueuedOperation,
+      'type' | 'userId' | 'accountId' | 'payload' | 'deletedAt'
+    >,
+    error: unknown
+  ): Promise<void> {
+    const queued = await this.offlineQueue.enqueue(operation);
+    if (error instanceof UnacknowledgedWriteError) {
+      this.inFlightWrites.set(queued.id, error.write);
+      error.write
+        .then(() => this.offlineQueue.discardOperation(queued.id))
+        .catch(() => {
+          // Rejected writes are logged by commitWrite and replayed from the queue
+        })
+        .finally(() => this.inFlightWrites.delete(queued.id));
+    }
+    await this.offlineQueue.scheduleReplay(
+      operation.userId,
+      this.executeQueuedOperation
+    );
+  }
+
+  /**
+   * Replay a single queued mutation against Firestore
+   */
+  private executeQueuedOperation = async (
+    operation: QueuedOperation
+  ): Promise<void> => {
+    // Wait for the original write instead of sending it again
+    const inFlight = this.inFlightWrites.get(operation.id);
+    if (inFlight) {
+      await this.commitWrite(inFlight);
+      return;
+    }
+
+    switch (operation.type) {
+      case 'create':
+        await this.writeCreate(operation.userId, {
+          ...(operation.payload as Omit<
+            TOTPAccount,
+            'userId' | 'createdAt' | 'updatedAt'
+          >),
+          id: operation.accountId,
+        });
+        break;
+      case 'update':
+        await this.writeUpdate(
+          operation.userId,
+          operation.accountId,
+          operation.payload || {}
+        );
+        break;
+      case 'delete':
+        await this.writeDelete(
+          operation.userId,
+          operation.accountId,
+          operation.payload?.revision || 0,
+          operation.deletedAt || operation.enqueuedAt
+        );
+        break;
+    }
+  };
+
+  /**
+   * Replay a user's queued offline mutations in order
+   */
+  public async replayOfflineQueue(
+    userId: string
+  ): Promise<
+    ApiResponse<{ completed: number; failed: number; remaining: number }>
+  > {
+    try {
+      const result = await this.offlineQueue.replay(
+        userId,
+        this.executeQueuedOperation
+      );
+      await this.offlineQueue.scheduleReplay(
+        userId,
+        this.executeQueuedOperation
+      );
+
+      return {
+        success: true,
+        data: result,
+        message: 'Offline queue replayed',
+      };
+    } catch (error) {
+      console.error('Error replaying offline queue:', error);
+      return {
+        success: false,
+        error: 'Failed to replay offline queue',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Give a failed queued operation another round of attempts
+   */
+  public async retryQueuedOperation(
+    userId: string,
+    operationId: string
+  ): Promise<void> {
+    await this.offlineQueue.retryOperation(operationId);
+    await this.replayOfflineQueue(userId);
+  }
+
+  /**
+   * Drop a queued operation the user no longer wants to apply
+   */
+  public async discardQueuedOperation(operationId: string): Promise<void> {
+    await this.offlineQueue.discardOperation(operationId);
+  }
+
+  /**
+   * Get all deletion tombstones for a user
+   * With `since`, only tombstones written after that server time are returned
+   */
+  public async getTombstones(
+    userId: string,
+    since?: number
+  ): Promise<ApiResponse<AccountTombstone[]>> {
+    try {
+      const tombstonesRef = collection(
         db,
         COLLECTIONS.USERS,
         userId,
-        COLLECTIONS.ACCOUNTS,
-        accountId
+        COLLECTIONS.TOMBSTONES
+      );
+      const snapshot = await getDocs(
+        since === undefined
+          ? tombstonesRef
+          : query(
+              tombstonesRef,
+              where('updatedAt', '>', Timestamp.fromMillis(since))
+            )
       );
-      await deleteDoc(accountRef);
+
+      const tombstones: AccountTombstone[] = [];
+      snapshot.forEach(doc => {
+        const data = doc.data();
+        tombstones.push({
+          id: doc.id,
+          deletedAt: data.deletedAt || 0,
+          revision: data.revision,
+          updatedAt: data.updatedAt?.toMillis?.(),
+        });
+      });
 
       return {
         success: true,
-        message: 'Account deleted successfully',
+        data: tombstones,
+        message: 'Tombstones retrieved successfully',
       };
     } catch (error) {
-      console.error('Error deleting account:', error);
+      console.error('Error getting tombstones:', error);
       return {
         success: false,
-        error: 'Failed to delete account',
+        error: 'Failed to get tombstones',
         message: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
+  /**
+   * Remove a tombstone from Firestore (after garbage collection or resurrection)
+   */
+  private async deleteTombstone(
+    userId: string,
+    accountId: string
+  ): Promise<void> {
+    await deleteDoc(
+      doc(db, COLLECTIONS.USERS, userId, COLLECTIONS.TOMBSTONES, accountId)
+    );
+  }
+
   /**
    * Get all TOTP accounts for a user
+   * With `since`, only accounts updated after that server time are returned
    */
   public async getAccounts(
-    userId: string
+    userId: string,
+    since?: number
   ): Promise<ApiResponse<TOTPAccount[]>> {
     try {
       const accountsRef = collection(
@@ -160,7 +522,13 @@ export class FirebaseService {
         userId,
         COLLECTIONS.ACCOUNTS
       );
-      const accountsQuery = query(accountsRef, orderBy('createdAt', 'desc'));
+      const accountsQuery =
+        since === undefined
+          ? query(accountsRef, orderBy('createdAt', 'desc'))
+          : query(
+              accountsRef,
+              where('updatedAt', '>', Timestamp.fromMillis(since))
+            );
       const snapshot = await getDocs(accountsQuery);
 
       const accounts: TOTPAccount[] = [];
@@ -185,10 +553,18 @@ export class FirebaseService {
 
   /**
    * Set up real-time listener for user's TOTP accounts
+   * The callback receives the full list and the documents that changed in this
+   * snapshot; echoes of this device's own pending writes are skipped.
+   * onReconnect runs when the listener moves from cached to server data.
    */
   public subscribeToAccounts(
     userId: string,
-    callback: (accounts: TOTPAccount[]) => void
+    callback: (
+      accounts: TOTPAccount[],
+      changes: { changed: TOTPAccount[]; removedIds: string[] }
+    ) => void,
+    onError: (error: Error) => void,
+    onReconnect?: () => void
   ): () => void {
     try {
       const accountsRef = collection(
@@ -198,19 +574,45 @@ export class FirebaseService {
         COLLECTIONS.ACCOUNTS
       );
       const accountsQuery = query(accountsRef, orderBy('createdAt', 'desc'));
+      let fromCache = false;
 
       const unsubscribe = onSnapshot(
         accountsQuery,
+        { includeMetadataChanges: true },
         snapshot => {
+          if (fromCache && !snapshot.metadata.fromCache) {
+            onReconnect?.();
+          }
+          fromCache = snapshot.metadata.fromCache;
+
+          if (snapshot.metadata.hasPendingWrites) {
+            return;
+          }
+
           const accounts: TOTPAccount[] = [];
           snapshot.forEach(doc => {
             accounts.push({ id: doc.id, ...doc.data() } as TOTPAccount);
           });
-          callback(accounts);
+
+          const changed: TOTPAccount[] = [];
+          const removedIds: string[] = [];
+          snapshot.docChanges().forEach(change => {
+            if (change.type === 'removed') {
+              removedIds.push(change.doc.id);
+            } else {
+              changed.push({
+                id: change.doc.id,
+                ...change.doc.data(),
+              } as TOTPAccount);
+            }
+          });
+
+          callback(accounts, { changed, removedIds });
         },
         error => {
+          // Report the failure; an empty list would look like a mass delete
           console.error('Error in accounts subscription:', error);
-          callback([]);
+          onError(error);
         }
       );
 
@@ -218,34 +620,219 @@ export class FirebaseService {
       return unsubscribe;
     } catch (error) {
       console.error('Error setting up accounts subscription:', error);
+      onError(
+        error instanceof Error
+          ? error
+          : new Error('Failed to subscribe to accounts')
+      );
       return () => {};
     }
   }
 
+  /**
+   * Merge cloud changes into local storage as they happen
+   * Changed documents are merged straight from the snapshot; removals run a
+   * delta sync so the matching tombstones are applied
+   */
+  public startLiveSync(userId: string, onError: (error: Error) => void): void {
+    this.stopLiveSync();
+
+    const unsubscribe = this.subscribeToAccounts(
+      userId,
+      (_, { changed, removedIds }) => {
+        const task =
+          removedIds.length > 0
+            ? this.syncAccounts(userId).then(result => {
+                if (!result.success) {
+                  throw new Error(result.message || 'Failed to sync deletions');
+                }
+              })
+            : changed.length > 0
+              ? this.applyRemoteChanges(userId, changed)
+              : Promise.resolve();
+
+        task.catch(error => {
+          console.error('Error applying live changes:', error);
+          onError(
+            error instanceof Error
+              ? error
+              : new Error('Failed to apply live changes')
+          );
+        });
+      },
+      onError,
+      () => {
+        // Connectivity is back: send the writes queued while offline
+        this.replayOfflineQueue(userId);
+      }
+    );
+
+    this.liveSyncUnsubscribe = () => {
+      unsubscribe();
+      this.unsubscribeCallbacks = this.unsubscribeCallbacks.filter(
+        callback => callback !== unsubscribe
+      );
+    };
+  }
+
+  /**
+   * Stop merging live changes (e.g. while the app is in the background)
+   */
+  public stopLiveSync(): void {
+    if (this.liveSyncUnsubscribe) {
+      this.liveSyncUnsubscribe();
+      this.liveSyncUnsubscribe = null;
+    }
+  }
+
+  /**
+   * Merge accounts received from a snapshot listener into local storage
+   */
+  private async applyRemoteChanges(
+    userId: string,
+    cloudAccounts: TOTPAccount[]
+  ): Promise<void> {
+    return this.runExclusive(async () => {
+      if (!this.syncKeyService.isUnlocked()) {
+        throw new Error('Sync vault is locked');
+      }
+
+      const localAccounts = await this.accountRepository.load();
+      const localTombstones = await this.accountRepository.getTombstones();
+
+      // Local deletions still win over the incoming copies
+      const deletions = await this.propagateDeletions(
+        userId,
+        localAccounts,
+        cloudAccounts,
+        localTombstones,
+        []
+      );
+      await this.resolveConflicts(
+        userId,
+        deletions.localAccounts,
+        deletions.cloudAccounts,
+        localAccounts
+      );
+    });
+  }
+
+  /**
+   * Run sync work one batch at a time so a live update never interleaves
+   * with a manual sync
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pendingSync.then(task);
+    this.pendingSync = result.catch(() => undefined);
+    return result;
+  }
+
   /**
    * Sync local accounts with Firestore
+   * Runs after any sync or live merge already in progress
    */
-  public async syncAccounts(userId: string): Promise<ApiResponse> {
+  public async syncAccounts(
+    userId: string,
+    options: { fullResync?: boolean } = {}
+  ): Promise<ApiResponse> {
+    return this.runExclusive(() => this.performSync(userId, options));
+  }
+
+  private async performSync(
+    userId: string,
+    options: { fullResync?: boolean }
+  ): Promise<ApiResponse> {
     try {
-      // Get local accounts
-      const localAccounts = await this.storageService.loadAccounts();
+      // Secrets can only be exchanged once the end-to-end sync key is unlocked
+      if (!this.syncKeyService.isUnlocked()) {
+        throw new Error('Sync vault is locked');
+      }
+
+      // Apply mutations queued while offline before comparing state
+      await this.replayOfflineQueue(userId);
+
+      // Get local accounts and deletions
+      let localAccounts = await this.accountRepository.load();
+      const localTombstones = await this.accountRepository.getTombstones();
+
+      // Seal secrets and notes uploaded before the vault existed
+      const vaultMigration = vaultSecretsMigration(userId);
+      if (!(await this.storageService.isMigrationComplete(vaultMigration))) {
+        await this.reencryptCloudSecrets(userId);
+        await this.storageService.setMigrationComplete(vaultMigration);
+      }
 
-      // Get cloud accounts
-      const cloudResult = await this.getAccounts(userId);
+      // Only download changes since the cursor unless a full resync is needed
+      const needsMigration =
+        !(await this.storageService.isMigrationComplete(ACCOUNT_ID_MIGRATION));
+      const cursorState = await this.storageService.getSyncCursorState();
+      const lastSync = await this.storageService.getLastSyncTime();
+      const fullResync =
+        options.fullResync ||
+        needsMigration ||
+        cursorState?.userId !== userId ||
+        cursorState?.schemaVersion !== SYNC.SCHEMA_VERSION;
+      const since = fullResync
+        ? undefined
+        : Math.max(0, lastSync - SYNC.CURSOR_OVERLAP);
+
+      // Get cloud accounts and deletions
+      const cloudResult = await this.getAccounts(userId, since);
       if (!cloudResult.success) {
         throw new Error(cloudResult.error || 'Failed to get cloud accounts');
       }
+      let cloudAccounts = cloudResult.data || [];
 
-      const cloudAccounts = cloudResult.data || [];
-      const conflicts = await this.resolveConflicts(
+      // Collapse duplicates created before ids were shared with Firestore
+      if (needsMigration) {
+        const migrated = await this.dedupeAccountIds(
+          userId,
+          localAccounts,
+          cloudAccounts
+        );
+        localAccounts = migrated.localAccounts;
+        cloudAccounts = migrated.cloudAccounts;
+        await this.storageService.setMigrationComplete(ACCOUNT_ID_MIGRATION);
+      }
+
+      const tombstoneResult = await this.getTombstones(userId, since);
+      if (!tombstoneResult.success) {
+        throw new Error(
+          tombstoneResult.error || 'Failed to get cloud tombstones'
+        );
+      }
+      const cloudTombstones = tombstoneResult.data || [];
+
+      // Apply deletions in both directions before merging the survivors
+      const deletions = await this.propagateDeletions(
         userId,
         localAccounts,
-        cloudAccounts
+        cloudAccounts,
+        localTombstones,
+        cloudTombstones
+      );
+
+      const conflicts = await this.resolveConflicts(
+        userId,
+        deletions.localAccounts,
+        deletions.cloudAccounts,
+        localAccounts
+      );
+
+      // Advance the cursor only once everything it covers has been merged
+      const cursor = Math.max(
+        fullResync ? 0 : lastSync,
+        ...cloudAccounts.map(acc => acc.updatedAt?.toMillis?.() || 0),
+        ...cloudTombstones.map(tombstone => tombstone.updatedAt || 0)
       );
+      await this.storageService.setSyncCursor(cursor, {
+        userId,
+        schemaVersion: SYNC.SCHEMA_VERSION,
+      });
 
       return {
         success: true,
-        data: conflicts,
+        data: { ...conflicts, deleted: deletions.deleted, fullResync },
         message: 'Accounts synced successfully',
       };
     } catch (error) {
@@ -259,54 +846,428 @@ export class FirebaseService {
   }
 
   /**
-   * Resolve conflicts between local and cloud accounts
+   * One-time migration that re-seals every cloud secret and PIN with the
+   * vault key and seals plaintext notes, once the vault is created or unlocked
+   * Copies uploaded earlier were sealed with a device-local key that other
+   * devices cannot open, or not at all for notes. Each document is re-sealed from its own cloud value
+   * in a transaction that bumps its revision, so newer edits from other
+   * devices are never overwritten and they merge the change like any other.
    */
-  private async resolveConflicts(
+  private async reencryptCloudSecrets(userId: string): Promise<void> {
+    const cloudResult = await this.getAccounts(userId);
+    if (!cloudResult.success) {
+      throw new Error(cloudResult.error || 'Failed to get cloud accounts');
+    }
+
+    for (const cloudAccount of cloudResult.data || []) {
+      const accountRef = doc(
+        db,
+        COLLECTIONS.USERS,
+        userId,
+        COLLECTIONS.ACCOUNTS,
+        cloudAccount.id
+      );
+
+      await withTimeout(
+        runTransaction(db, async transaction => {
+          const snapshot = await transaction.get(accountRef);
+          if (!snapshot.exists()) {
+            return;
+          }
+
+          const data = snapshot.data() as TOTPAccount;
+          const updates: Record<string, unknown> = {};
+          const secret = await this.resealDeviceValue(data.encryptedSecret);
+          if (secret) {
+            updates.encryptedSecret = secret;
+          }
+          const pin =
+            data.encryptedPin &&
+            (await this.resealDeviceValue(data.encryptedPin));
+          if (pin) {
+            updates.encryptedPin = pin;
+          }
+          if (data.notes) {
+            updates.encryptedNotes = this.syncKeyService.encrypt(data.notes);
+            updates.notes = null;
+          }
+          if (Object.keys(updates).length === 0) {
+            return;
+          }
+
+          transaction.update(accountRef, {
+            ...updates,
+            revision: (data.revision || 0) + 1,
+            updatedAt: serverTimestamp(),
+          });
+        }),
+        API.FIRESTORE_TIMEOUT
+      );
+    }
+  }
+
+  /**
+   * Re-seal a value encrypted with this device's local key under the vault key
+   * Returns null for values already sealed with the vault key and for values
+   * from another device, which re-seals them in its own migration
+   */
+  private async resealDeviceValue(value: string): Promise<string | null> {
+    try {
+      this.syncKeyService.decrypt(value);
+      return null;
+    } catch {
+      // Not sealed with the vault key yet
+    }
+
+    try {
+      return this.syncKeyService.encrypt(
+        await this.storageService.decrypt(value)
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * One-time migration that merges accounts duplicated by the old id scheme
+   * Local and cloud copies used to get different ids, so every sync downloaded
+   * another copy. Accounts with the same service, name and secret are collapsed
+   * onto the oldest cloud document and the extra cloud copies are tombstoned.
+   */
+  private async dedupeAccountIds(
     userId: string,
     localAccounts: LocalTOTPAccount[],
     cloudAccounts: TOTPAccount[]
-  ): Promise<{ uploaded: number; downloaded: number; conflicts: number }> {
+  ): Promise<{
+    localAccounts: LocalTOTPAccount[];
+    cloudAccounts: TOTPAccount[];
+  }> {
+    const fingerprint = (
+      serviceName: string,
+      accountName: string,
+      secret: string
+    ) =>
+      [serviceName, accountName, secret.replace(/\s/g, '').toUpperCase()].join(
+        '\u0000'
+      );
+
+    // Pick the oldest cloud document for each fingerprint as canonical
+    const sortedCloud = [...cloudAccounts].sort(
+      (a, b) =>
+        (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0)
+    );
+    const canonicalCloud = new Map<string, TOTPAccount>();
+    const keptCloud: TOTPAccount[] = [];
+
+    for (const cloudAccount of sortedCloud) {
+      let secret: string;
+      try {
+        secret = this.syncKeyService.decrypt(cloudAccount.encryptedSecret);
+      } catch {
+        // Cannot compare what we cannot decrypt; leave it untouched
+        keptCloud.push(cloudAccount);
+        continue;
+      }
+
+      const key = fingerprint(
+        cloudAccount.serviceName,
+        cloudAccount.accountName,
+        secret
+      );
+      if (canonicalCloud.has(key)) {
+        const result = await this.deleteAccount(
+          userId,
+          cloudAccount.id,
+          cloudAccount.revision || 0
+        );
+        if (!result.success) {
+          throw new Error(
+            result.message || 'Failed to remove duplicate account'
+          );
+        }
+      } else {
+        canonicalCloud.set(key, cloudAccount);
+        keptCloud.push(cloudAccount);
+      }
+    }
+
+    // Group local copies and re-key each group onto its cloud document
+    const localGroups = new Map<string, LocalTOTPAccount[]>();
+    for (const localAccount of localAccounts) {
+      const key = fingerprint(
+        localAccount.serviceName,
+        localAccount.accountName,
+        localAccount.secret
+      );
+      localGroups.set(key, [...(localGroups.get(key) || []), localAccount]);
+    }
+
+    const keptLocal: LocalTOTPAccount[] = [];
+    localGroups.forEach((group, key) => {
+      const canonical = canonicalCloud.get(key);
+      const preferred =
+        group.find(acc => acc.id === canonical?.id) ||
+        [...group].sort((a, b) => b.lastModified - a.lastModified)[0];
+
+      keptLocal.push(
+        canonical ? { ...preferred, id: canonical.id } : preferred
+      );
+    });
+
+    if (
+      keptLocal.length !== localAccounts.length ||
+      keptLocal.some((acc, i) => acc.id !== localAccounts[i]?.id)
+    ) {
+      await this.accountRepository.applySyncResult(localAccounts, keptLocal);
+    }
+
+    return { localAccounts: keptLocal, cloudAccounts: keptCloud };
+  }
+
+  /**
+   * Propagate deletions between devices using tombstones
+   * A delete wins unless the account has edits the deleting device had not
+   * seen: a newer cloud revision than the one deleted, or local changes not
+   * yet uploaded. Revisions come from the cloud, so device clocks never
+   * decide. Tombstones older than the retention window are garbage-collected
+   * on both sides.
+   */
+  private async propagateDeletions(
+    userId: string,
+    localAccounts: LocalTOTPAccount[],
+    cloudAccounts: TOTPAccount[],
+    localTombstones: AccountTombstone[],
+    cloudTombstones: AccountTombstone[]
+  ): Promise<{
+    localAccounts: LocalTOTPAccount[];
+    cloudAccounts: TOTPAccount[];
+    deleted: number;
+  }> {
+    let deleted = 0;
+    const now = Date.now();
+    const ancestors = new Map(
+      (await this.storageService.loadSyncAncestors()).map(a => [a.id, a])
+    );
+
+    const localMap = new Map(localAccounts.map(acc => [acc.id, acc]));
+    const cloudMap = new Map(cloudAccounts.map(acc => [acc.id, acc]));
+    const cloudTombstoneIds = new Set(cloudTombstones.map(t => t.id));
+
+    // Merge both tombstone sets, keeping the latest deletion per account
+    const tombstones = new Map<string, AccountTombstone>();
+    for (const tombstone of [...localTombstones, ...cloudTombstones]) {
+      const existing = tombstones.get(tombstone.id);
+      if (!existing || tombstone.deletedAt > existing.deletedAt) {
+        tombstones.set(tombstone.id, tombstone);
+      }
+    }
+
+    for (const tombstone of Array.from(tombstones.values())) {
+      const localAccount = localMap.get(tombstone.id);
+      const cloudAccount = cloudMap.get(tombstone.id);
+      // Deleted on this device and not uploaded yet: the last revision this
+      // device agreed on is the one it deleted
+      const revision =
+        tombstone.revision ?? ancestors.get(tombstone.id)?.revision;
+
+      // Expired tombstones are forgotten everywhere
+      if (now - tombstone.deletedAt > SYNC.TOMBSTONE_RETENTION) {
+        tombstones.delete(tombstone.id);
+        if (cloudTombstoneIds.has(tombstone.id)) {
+          await this.deleteTombstone(userId, tombstone.id);
+        }
+        continue;
+      }
+
+      // An edit the deleting device had not seen resurrects the account.
+      // Tombstones written before revisions were recorded fall back to the
+      // server write times of the tombstone and the cloud copy.
+      const editedLocally = localAccount?.syncStatus === 'pending';
+      const editedInCloud =
+        !!cloudAccount &&
+        (revision !== undefined
+          ? (cloudAccount.revision || 0) > revision
+          : (cloudAccount.updatedAt?.toMillis?.() || 0) >
+            (tombstone.updatedAt || 0));
+      if (editedLocally || editedInCloud) {
+        tombstones.delete(tombstone.id);
+        if (cloudTombstoneIds.has(tombstone.id)) {
+          await this.deleteTombstone(userId, tombstone.id);
+        }
+        continue;
+      }
+
+      if (localAccount || cloudAccount) {
+        deleted++;
+      }
+      localMap.delete(tombstone.id);
+
+      // Delta syncs only see recent cloud tombstones, so remember which local
+      // ones have already been pushed instead of re-sending them every time
+      const inCloud =
+        cloudTombstoneIds.has(tombstone.id) ||
+        tombstone.syncStatus === 'synced';
+      let syncStatus: AccountTombstone['syncStatus'] = 'synced';
+      if (cloudAccount || !inCloud) {
+        const result = await this.deleteAccount(
+          userId,
+          tombstone.id,
+          revision ?? (cloudAccount?.revision || 0),
+          tombstone.deletedAt
+        );
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to propagate deletion');
+        }
+        // Sent again next sync until the server acknowledges it
+        if (result.data === 'queued') {
+          syncStatus = 'pending';
+        }
+      }
+      tombstones.set(tombstone.id, {
+        id: tombstone.id,
+        deletedAt: tombstone.deletedAt,
+        revision: revision ?? (cloudAccount?.revision || 0),
+        syncStatus,
+      });
+      cloudMap.delete(tombstone.id);
+    }
+
+    await this.accountRepository.applySyncTombstones(
+      localTombstones,
+      Array.from(tombstones.values())
+    );
+
+    return {
+      localAccounts: Array.from(localMap.values()),
+      cloudAccounts: Array.from(cloudMap.values()),
+      deleted,
+    };
+  }
+
+  /**
+   * Merge local and cloud accounts field by field
+   * Each account is compared against the last state both sides agreed on, so
+   * edits made on different devices to different fields are all kept. Fields
+   * edited on both sides are recorded as conflicts for the user to resolve.
+   */
+  private async resolveConflicts(
+    userId: string,
+    localAccounts: LocalTOTPAccount[],
+    cloudAccounts: TOTPAccount[],
+    snapshot: LocalTOTPAccount[]
+  ): Promise<{
+    uploaded: number;
+    downloaded: number;
+    conflicts: number;
+    errors: number;
+  }> {
     let uploaded = 0;
     let downloaded = 0;
-    let conflicts = 0;
+    let errors = 0;
 
     // Create maps for easier lookup
     const localMap = new Map(localAccounts.map(acc => [acc.id, acc]));
     const cloudMap = new Map(cloudAccounts.map(acc => [acc.id, acc]));
+    const ancestors = new Map(
+      (await this.storageService.loadSyncAncestors()).map(a => [a.id, a])
+    );
+    const conflictMap = new Map(
+      (await this.storageService.loadSyncConflicts()).map(c => [c.accountId, c])
+    );
+
+    // Record the outcome of a merge committed to the cloud
+    const applyMerge = (
+      localAccount: LocalTOTPAccount,
+      { result, revision, cloudRevision }: CommittedMerge
+    ) => {
+      if (result.localChanges.length > 0) {
+        uploaded++;
+      }
+      if (result.cloudChanges.length > 0) {
+        downloaded++;
+      }
+
+      if (result.conflicts.length > 0) {
+        conflictMap.set(localAccount.id, {
+          accountId: localAccount.id,
+          cloudRevision,
+          fields: result.conflicts,
+          detectedAt:
+            conflictMap.get(localAccount.id)?.detectedAt || Date.now(),
+        });
+      } else {
+        conflictMap.delete(localAccount.id);
+      }
 
-    // Handle accounts that exist locally but not in cloud (upload)
+      localMap.set(localAccount.id, {
+        ...applySyncedFields(localAccount, result.merged),
+        syncStatus: result.conflicts.length > 0 ? 'error' : 'synced',
+        lastModified:
+          result.cloudChanges.length > 0
+            ? Date.now()
+            : localAccount.lastModified,
+      });
+      ancestors.set(localAccount.id, {
+        id: localAccount.id,
+        revision,
+        fields: result.ancestor,
+      });
+    };
+
+    // Handle local changes the cloud copy has not seen (upload)
     for (const localAccount of localAccounts) {
       if (
-        !cloudMap.has(localAccount.id) &&
-        localAccount.syncStatus === 'pending'
+        cloudMap.has(localAccount.id) ||
+        localAccount.syncStatus !== 'pending'
       ) {
-        try {
-          // Encrypt secret before uploading
-          const encryptedSecret = await this.storageService.encrypt(
-            localAccount.secret
-          );
+        continue;
+      }
 
-          await this.createAccount(userId, {
-            serviceName: localAccount.serviceName,
-            accountName: localAccount.accountName,
-            encryptedSecret,
-            algorithm: localAccount.algorithm as any,
-            digits: localAccount.digits as any,
-            period: localAccount.period,
-            iconUrl: localAccount.iconUrl,
-          });
+      try {
+        // Merge against the current cloud copy, which may exist without an
+        // ancestor when an earlier upload was queued; without a cloud
+        // document the account is new and uploaded whole
+        const committed = await this.commitMerge(
+          userId,
+          localAccount,
+          ancestors.get(localAccount.id)?.fields
+        );
 
-          // Update local sync status
-          const updatedLocal = {
-            ...localAccount,
-            syncStatus: 'synced' as const,
-          };
-          localMap.set(localAccount.id, updatedLocal);
-          uploaded++;
-        } catch (error) {
-          console.error('Error uploading account:', error);
-          conflicts++;
+        if (committed) {
+          applyMerge(localAccount, committed);
+          continue;
+        }
+
+        const fields = pickSyncedFields(localAccount);
+        const result = await this.createAccount(userId, {
+          id: localAccount.id,
+          ...this.toCloudFields(
+            fields,
+            SYNCED_FIELDS.filter(field => fields[field] !== undefined)
+          ),
+          revision: 1,
+        } as Omit<TOTPAccount, 'userId' | 'createdAt' | 'updatedAt'>);
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to upload account');
+        }
+        // Stays pending until the server acknowledges the upload
+        if (result.data === 'queued') {
+          continue;
         }
+        ancestors.set(localAccount.id, {
+          id: localAccount.id,
+          revision: 1,
+          fields,
+        });
+        conflictMap.delete(localAccount.id);
+        localMap.set(localAccount.id, {
+          ...localAccount,
+          syncStatus: 'synced',
+        });
+        uploaded++;
+      } catch (error) {
+        console.error('Error uploading account:', error);
+        errors++;
       }
     }
 
@@ -314,108 +1275,266 @@ export class FirebaseService {
     for (const cloudAccount of cloudAccounts) {
       if (!localMap.has(cloudAccount.id)) {
         try {
-          // Decrypt secret after downloading
-          const decryptedSecret = await this.storageService.decrypt(
-            cloudAccount.encryptedSecret
-          );
+          const fields = this.fromCloudFields(cloudAccount);
 
-          const localAccount: LocalTOTPAccount = {
+          localMap.set(cloudAccount.id, {
             id: cloudAccount.id,
-            serviceName: cloudAccount.serviceName,
-            accountName: cloudAccount.accountName,
-            secret: decryptedSecret,
-            algorithm: cloudAccount.algorithm,
-            digits: cloudAccount.digits,
-            period: cloudAccount.period,
-            iconUrl: cloudAccount.iconUrl,
+            ...fields,
             syncStatus: 'synced',
             lastModified: Date.now(),
-          };
-
-          localMap.set(cloudAccount.id, localAccount);
+          });
+          ancestors.set(cloudAccount.id, {
+            id: cloudAccount.id,
+            revision: cloudAccount.revision || 0,
+            fields,
+          });
           downloaded++;
         } catch (error) {
           console.error('Error downloading account:', error);
-          conflicts++;
+          errors++;
         }
       }
     }
 
-    // Handle conflicts (accounts exist in both but are different)
+    // Merge accounts changed on both sides
     for (const localAccount of localAccounts) {
       const cloudAccount = cloudMap.get(localAccount.id);
-      if (cloudAccount && this.hasConflict(localAccount, cloudAccount)) {
-        // Use "last modified wins" strategy
-        const localTime = localAccount.lastModified;
-        const cloudTime = cloudAccount.updatedAt?.toMillis?.() || 0;
-
-        if (localTime > cloudTime) {
-          // Local is newer, upload
-          try {
-            const encryptedSecret = await this.storageService.encrypt(
-              localAccount.secret
-            );
-            await this.updateAccount(userId, localAccount.id, {
-              serviceName: localAccount.serviceName,
-              accountName: localAccount.accountName,
-              encryptedSecret,
-              algorithm: localAccount.algorithm as any,
-              digits: localAccount.digits as any,
-              period: localAccount.period,
-              iconUrl: localAccount.iconUrl,
-            });
-            uploaded++;
-          } catch (error) {
-            console.error('Error resolving conflict (upload):', error);
-            conflicts++;
-          }
-        } else {
-          // Cloud is newer, download
-          try {
-            const decryptedSecret = await this.storageService.decrypt(
-              cloudAccount.encryptedSecret
-            );
-            const updatedLocal: LocalTOTPAccount = {
-              ...localAccount,
-              serviceName: cloudAccount.serviceName,
-              accountName: cloudAccount.accountName,
-              secret: decryptedSecret,
-              algorithm: cloudAccount.algorithm,
-              digits: cloudAccount.digits,
-              period: cloudAccount.period,
-              iconUrl: cloudAccount.iconUrl,
-              syncStatus: 'synced',
-              lastModified: Date.now(),
-            };
-            localMap.set(localAccount.id, updatedLocal);
-            downloaded++;
-          } catch (error) {
-            console.error('Error resolving conflict (download):', error);
-            conflicts++;
-          }
+      if (!cloudAccount) {
+        continue;
+      }
+
+      const ancestor = ancestors.get(localAccount.id);
+
+      // Nothing to do when neither side moved past the ancestor
+      if (
+        ancestor &&
+        ancestor.revision === (cloudAccount.revision || 0) &&
+        localAccount.syncStatus === 'synced' &&
+        !conflictMap.has(localAccount.id)
+      ) {
+        continue;
+      }
+
+      try {
+        // Without an ancestor an account with no local edits is its own base
+        const base =
+          ancestor?.fields ||
+          (localAccount.syncStatus === 'synced'
+            ? pickSyncedFields(localAccount)
+            : undefined);
+        const committed = await this.commitMerge(userId, localAccount, base);
+        if (!committed) {
+          // Deleted in the cloud meanwhile; its tombstone arrives next sync
+          throw new Error('Account was deleted in the cloud during sync');
         }
+        applyMerge(localAccount, committed);
+      } catch (error) {
+        console.error('Error merging account:', error);
+        errors++;
       }
     }
 
-    // Save updated local accounts
-    await this.storageService.saveAccounts(Array.from(localMap.values()));
+    // Forget merge state of accounts that no longer exist
+    Array.from(ancestors.keys()).forEach(id => {
+      if (!localMap.has(id)) {
+        ancestors.delete(id);
+        conflictMap.delete(id);
+      }
+    });
 
-    return { uploaded, downloaded, conflicts };
+    // Save merge state and updated local accounts, then notify screens. The
+    // accounts are merged into the list as it is now, so changes made on this
+    // device while the sync was talking to Firestore are kept.
+    await this.storageService.saveSyncAncestors(Array.from(ancestors.values()));
+    await this.storageService.saveSyncConflicts(
+      Array.from(conflictMap.values())
+    );
+    await this.accountRepository.applySyncResult(
+      snapshot,
+      Array.from(localMap.values())
+    );
+
+    return { uploaded, downloaded, conflicts: conflictMap.size, errors };
   }
 
   /**
-   * Check if there's a conflict between local and cloud account
+   * Merge a local account into its cloud document and upload the result
+   * Runs in a transaction against the revision it read: when another device
+   * wrote in the meantime, Firestore re-runs the transaction and the three-way
+   * merge is repeated against the newer copy instead of overwriting it.
+   * Returns null when the cloud document does not exist.
    */
-  private hasConflict(local: LocalTOTPAccount, cloud: TOTPAccount): boolean {
-    return (
-      local.serviceName !== cloud.serviceName ||
-      local.accountName !== cloud.accountName ||
-      local.algorithm !== cloud.algorithm ||
-      local.digits !== cloud.digits ||
-      local.period !== cloud.period
+  private async commitMerge(
+    userId: string,
+    localAccount: LocalTOTPAccount,
+    base: Partial<SyncedAccountFields> | undefined
+  ): Promise<CommittedMerge | null> {
+    const accountRef = doc(
+      db,
+      COLLECTIONS.USERS,
+      userId,
+      COLLECTIONS.ACCOUNTS,
+      localAccount.id
+    );
+
+    return withTimeout(
+      runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(accountRef);
+        if (!snapshot.exists()) {
+          return null;
+        }
+
+        const cloudAccount = {
+          id: snapshot.id,
+          ...snapshot.data(),
+        } as TOTPAccount;
+        const cloudRevision = cloudAccount.revision || 0;
+        const result = mergeAccountFields(
+          base,
+          pickSyncedFields(localAccount),
+          this.fromCloudFields(cloudAccount)
+        );
+
+        let revision = cloudRevision;
+        if (result.localChanges.length > 0) {
+          revision = cloudRevision + 1;
+          transaction.update(accountRef, {
+            ...this.toCloudFields(result.merged, result.localChanges),
+            revision,
+            updatedAt: serverTimestamp(),
+          });
+        }
+        return { result, revision, cloudRevision };
+      }),
+      API.FIRESTORE_TIMEOUT
     );
   }
 
+  /**
+   * Get conflicts recorded during sync that need a decision from the user
+   */
+  public async getSyncConflicts(): Promise<AccountConflict[]> {
+    return this.storageService.loadSyncConflicts();
+  }
+
+  /**
+   * Apply the user's decision for a recorded conflict and sync it
+   * Each conflicting field takes the local or cloud value; the cloud value
+   * becomes the field's ancestor so a local choice is uploaded as a change
+   */
+  public async resolveSyncConflict(
+    userId: string,
+    accountId: string,
+    choices: Partial<Record<SyncedField, ConflictChoice>>
+  ): Promise<ApiResponse> {
+    // Runs under the sync lock so a sync in flight cannot overwrite the choice
+    return this.runExclusive(async () => {
+      try {
+        const conflicts = await this.storageService.loadSyncConflicts();
+        const conflict = conflicts.find(c => c.accountId === accountId);
+        if (!conflict) {
+          throw new Error('This conflict has already been resolved');
+        }
+
+        const updates: Partial<SyncedAccountFields> = {};
+        const ancestorFields: Partial<SyncedAccountFields> = {};
+        for (const fieldConflict of conflict.fields) {
+          const choice = choices[fieldConflict.field] || 'local';
+          Object.assign(updates, {
+            [fieldConflict.field]:
+              choice === 'local' ? fieldConflict.local : fieldConflict.cloud,
+          });
+          Object.assign(ancestorFields, {
+            [fieldConflict.field]: fieldConflict.cloud,
+          });
+        }
+
+        const ancestors = await this.storageService.loadSyncAncestors();
+        const ancestor = ancestors.find(a => a.id === accountId);
+        await this.storageService.saveSyncAncestors([
+          ...ancestors.filter(a => a.id !== accountId),
+          {
+            id: accountId,
+            revision: conflict.cloudRevision,
+            fields: { ...ancestor?.fields, ...ancestorFields },
+          },
+        ]);
+        await this.storageService.saveSyncConflicts(
+          conflicts.filter(c => c.accountId !== accountId)
+        );
+        await this.accountRepository.updateAccount(accountId, updates);
+
+        return this.performSync(userId, {});
+      } catch (error) {
+        console.error('Error resolving sync conflict:', error);
+        return {
+          success: false,
+          error: 'Failed to resolve conflict',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Decrypt the synchronized fields of a cloud account
+   */
+  private fromCloudFields(cloudAccount: TOTPAccount): SyncedAccountFields {
+    return {
+      serviceName: cloudAccount.serviceName,
+      accountName: cloudAccount.accountName,
+      secret: this.syncKeyService.decrypt(cloudAccount.encryptedSecret),
+      pin: cloudAccount.encryptedPin
+        ? this.syncKeyService.decrypt(cloudAccount.encryptedPin)
+        : undefined,
+      algorithm: cloudAccount.algorithm,
+      digits: cloudAccount.digits,
+      period: cloudAccount.period,
+      iconUrl: cloudAccount.iconUrl ?? undefined,
+      type: cloudAccount.type ?? undefined,
+      counter: cloudAccount.counter ?? undefined,
+      encoder: cloudAccount.encoder ?? undefined,
+      ocraSuite: cloudAccount.ocraSuite ?? undefined,
+      timeOffsetSeconds: cloudAccount.timeOffsetSeconds ?? undefined,
+      group: cloudAccount.group ?? undefined,
+      notes: cloudAccount.encryptedNotes
+        ? this.syncKeyService.decrypt(cloudAccount.encryptedNotes)
+        : (cloudAccount.notes ?? undefined),
+    };
+  }
+
+  /**
+   * Build a Firestore payload for the given fields, encrypting the secret,
+   * PIN and notes
+   * Cleared optional fields are stored as null so queued writes stay JSON
+   */
+  private toCloudFields(
+    fields: SyncedAccountFields,
+    include: SyncedField[]
+  ): Partial<Omit<TOTPAccount, 'id' | 'userId' | 'createdAt'>> {
+    const payload: Record<string, unknown> = {};
+    for (const field of include) {
+      if (field === 'secret') {
+        payload.encryptedSecret = this.syncKeyService.encrypt(fields.secret);
+      } else if (field === 'pin') {
+        payload.encryptedPin = fields.pin
+          ? this.syncKeyService.encrypt(fields.pin)
+          : null;
+      } else if (field === 'notes') {
+        // Notes often hold recovery codes, e.g. from password manager imports
+        payload.encryptedNotes = fields.notes
+          ? this.syncKeyService.encrypt(fields.notes)
+          : null;
+        payload.notes = null;
+      } else if (fields[field] === undefined) {
+        payload[field] = null;
+      } else {
+        payload[field] = fields[field];
+      }
+    }
+    return payload;
+  }
+
   /**
    * Enable offline persistence
    */
@@ -439,9 +1558,11 @@ export class FirebaseService {
   }
 
   /**
-   * Clean up all subscriptions
+   * Clean up all subscriptions and scheduled queue replays (e.g. on sign-out)
    */
   public unsubscribeAll(): void {
+    this.liveSyncUnsubscribe = null;
+    this.offlineQueue.cancelReplay();
     this.unsubscribeCallbacks.forEach(unsubscribe => {
       try {
         unsubscribe();
@@ -452,6 +1573,32 @@ export class FirebaseService {
     this.unsubscribeCallbacks = [];
   }
 
+  /**
+   * Round-trip a serverTimestamp through the user document to read the
+   * Firestore clock, bracketed by the device clock for TimeSyncService
+   */
+  public async measureServerClock(userId: string): Promise<ClockSample> {
+    const userRef = doc(db, COLLECTIONS.USERS, userId);
+
+    const sentAt = Date.now();
+    await withTimeout(
+      setDoc(userRef, { clockProbeAt: serverTimestamp() }, { merge: true }),
+      API.FIRESTORE_TIMEOUT
+    );
+    const receivedAt = Date.now();
+
+    const snapshot = await withTimeout(
+      getDocFromServer(userRef),
+      API.FIRESTORE_TIMEOUT
+    );
+    const probeAt = snapshot.data()?.clockProbeAt as Timestamp | undefined;
+    if (!probeAt) {
+      throw new Error('Server timestamp missing from user document');
+    }
+
+    return { serverTimeMs: probeAt.toMillis(), sentAt, receivedAt };
+  }
+
   /**
    * Get sync status and statistics
    */
@@ -460,12 +1607,28 @@ export class FirebaseService {
       lastSync: number;
       pendingUploads: number;
       totalAccounts: number;
-      cloudAccounts: number;
+      cloudAccounts: number | null; // null while Firestore is unreachable
+      queuedOperations: number;
+      failedOperations: QueuedOperation[];
     }>
   > {
     try {
-      const localAccounts = await this.storageService.loadAccounts();
-      const cloudResult = await this.getAccounts(userId);
+      const localAccounts = await this.accountRepository.load();
+      const operations = await this.offlineQueue.getUserOperations(userId);
+
+      // Everything else is local, so the status is still shown offline
+      let cloudAccounts: number | null = null;
+      try {
+        const cloudCount = await withTimeout(
+          getCountFromServer(
+            collection(db, COLLECTIONS.USERS, userId, COLLECTIONS.ACCOUNTS)
+          ),
+          API.FIRESTORE_TIMEOUT
+        );
+        cloudAccounts = cloudCount.data().count;
+      } catch (error) {
+        console.warn('Could not count cloud accounts:', error);
+      }
 
       const pendingUploads = localAccounts.filter(
         acc => acc.syncStatus === 'pending'
@@ -478,9 +1641,10 @@ export class FirebaseService {
           lastSync,
           pendingUploads,
           totalAccounts: localAccounts.length,
-          cloudAccounts: cloudResult.success
-            ? cloudResult.data?.length || 0
-            : 0,
+          cloudAccounts,
+          queuedOperations: operations.filter(op => op.status === 'queued')
+            .length,
+          failedOperations: operations.filter(op => op.status === 'failed'),
         },
       };
     } catch (error) {
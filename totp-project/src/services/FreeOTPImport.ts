@@ -0,0 +1,85 @@
+import { bytesToBase32 } from '@/utils/crypto';
+import {
+  ImportBatch,
+  accountFromOTPAuthURL,
+  importErrorMessage,
+} from './AccountImport';
+
+interface FreeOTPToken {
+  type?: string; // TOTP or HOTP
+  algo?: string;
+  digits?: number;
+  period?: number;
+  counter?: number;
+  label?: string;
+  issuerExt?: string;
+  secret?: number[]; // signed Java bytes
+}
+
+interface FreeOTPExport {
+  tokens?: FreeOTPToken[];
+}
+
+/**
+ * Parse a FreeOTP+ JSON export, or throw if it is not one
+ */
+const parseExport = (contents: string): FreeOTPExport => {
+  let exported: FreeOTPExport;
+  try {
+    exported = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!exported || !Array.isArray(exported.tokens)) {
+    throw new Error('This file is not a FreeOTP+ export');
+  }
+  return exported;
+};
+
+/**
+ * Rebuild the otpauth:// URI of a token so it is validated like a scanned code
+ */
+const tokenToOTPAuthURL = (token: FreeOTPToken): string => {
+  if (!Array.isArray(token.secret) || token.secret.length === 0) {
+    throw new Error('Secret is missing');
+  }
+
+  const type = (token.type || 'TOTP').toLowerCase();
+  const issuer = token.issuerExt || '';
+  const label = issuer ? `${issuer}:${token.label || ''}` : token.label || '';
+  const params = new URLSearchParams({
+    secret: bytesToBase32(
+      new Uint8Array(token.secret.map(byte => byte & 0xff))
+    ),
+    issuer,
+    algorithm: token.algo || 'SHA1',
+    digits: String(token.digits || 6),
+    period: String(token.period || 30),
+  });
+  if (type === 'hotp') {
+    params.set('counter', String(token.counter ?? 0));
+  }
+
+  return `otpauth://${type}/${encodeURIComponent(label)}?${params.toString()}`;
+};
+
+/**
+ * Read the tokens of a FreeOTP+ JSON export
+ * Bad tokens are reported by position instead of failing the import.
+ */
+export const importFreeOTPExport = (contents: string): ImportBatch => {
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+
+  (parseExport(contents).tokens || []).forEach((token, index) => {
+    try {
+      batch.accounts.push(accountFromOTPAuthURL(tokenToOTPAuthURL(token)));
+    } catch (error) {
+      const name = token.issuerExt || token.label || 'unnamed';
+      batch.unsupported.push(
+        `Token ${index + 1} (${name}): ${importErrorMessage(error)}`
+      );
+    }
+  });
+
+  return batch;
+};
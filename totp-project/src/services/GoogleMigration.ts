@@ -0,0 +1,395 @@
+import * as Crypto from 'expo-crypto';
+import {
+  LocalTOTPAccount,
+  MigrationBatch,
+  MigrationExport,
+  QRCodeResult,
+} from '@/types';
+import {
+  base32ToBytes,
+  base64ToBytes,
+  bytesToBase32,
+  bytesToBase64,
+} from '@/utils/crypto';
+import { GOOGLE_MIGRATION } from '@/utils/constants';
+
+export const MIGRATION_URL_PREFIX = 'otpauth-migration://offline';
+
+// Enum values of Google Authenticator's MigrationPayload.OtpParameters
+const ALGORITHMS: Record<number, string | undefined> = {
+  0: 'SHA1', // unspecified
+  1: 'SHA1',
+  2: 'SHA256',
+  3: 'SHA512',
+  4: undefined, // MD5 is not supported
+};
+const DIGIT_COUNTS: Record<number, number | undefined> = {
+  0: 6, // unspecified
+  1: 6,
+  2: 8,
+};
+const OTP_TYPE_HOTP = 1;
+const OTP_TYPE_TOTP = 2;
+const ALGORITHM_VALUES: Record<string, number | undefined> = {
+  SHA1: 1,
+  SHA256: 2,
+  SHA512: 3,
+};
+const DIGIT_COUNT_VALUES: Record<number, number | undefined> = { 6: 1, 8: 2 };
+// The payload has no period field: every TOTP account uses 30 seconds
+const MIGRATION_PERIOD = 30;
+
+// Protobuf wire types used by the payload
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal protobuf reader for the fields the migration payload uses
+ */
+class ProtobufReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  public hasMore(): boolean {
+    return this.offset < this.bytes.length;
+  }
+
+  /**
+   * Read a field key as [field number, wire type]
+   */
+  public readKey(): [number, number] {
+    const key = this.readVarint();
+    return [Math.floor(key / 8), key % 8];
+  }
+
+  /**
+   * Read a varint; values above 2^53 lose precision, which no field here needs
+   */
+  public readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 10; i++) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+    throw new Error('Malformed varint');
+  }
+
+  public readBytes(): Uint8Array {
+    const length = this.readVarint();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Truncated field');
+    }
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  public readString(): string {
+    return new TextDecoder().decode(this.readBytes());
+  }
+
+  /**
+   * Skip a field this decoder does not use
+   */
+  public skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.advance(8);
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.readBytes();
+        break;
+      case WIRE_FIXED32:
+        this.advance(4);
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Truncated payload');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  private advance(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Truncated field');
+    }
+    this.offset += length;
+  }
+}
+
+/**
+ * Minimal protobuf writer, the counterpart of ProtobufReader
+ */
+class ProtobufWriter {
+  private chunks: number[] = [];
+
+  public writeVarint(field: number, value: number): this {
+    this.pushVarint(field * 8 + WIRE_VARINT);
+    this.pushVarint(value);
+    return this;
+  }
+
+  public writeBytes(field: number, value: Uint8Array): this {
+    this.pushVarint(field * 8 + WIRE_LENGTH_DELIMITED);
+    this.pushVarint(value.length);
+    value.forEach(byte => this.chunks.push(byte));
+    return this;
+  }
+
+  public writeString(field: number, value: string): this {
+    return this.writeBytes(field, new TextEncoder().encode(value));
+  }
+
+  public finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+
+  private pushVarint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.chunks.push(remaining % 0x80 | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.chunks.push(remaining);
+  }
+}
+
+/**
+ * Whether scanned QR data is a Google Authenticator export
+ */
+export const isMigrationURL = (data: string): boolean =>
+  data.trim().toLowerCase().startsWith(MIGRATION_URL_PREFIX);
+
+/**
+ * Decode one OtpParameters message, or a reason it cannot be imported
+ */
+const decodeOtpParameters = (
+  bytes: Uint8Array
+): { entry?: QRCodeResult; unsupported?: string } => {
+  const reader = new ProtobufReader(bytes);
+  let secret = new Uint8Array();
+  let name = '';
+  let issuer = '';
+  let algorithm = 0;
+  let digitCount = 0;
+  let otpType = 0;
+  let counter = 0;
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readKey();
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      secret = reader.readBytes();
+    } else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+      name = reader.readString();
+    } else if (field === 3 && wireType === WIRE_LENGTH_DELIMITED) {
+      issuer = reader.readString();
+    } else if (field === 4 && wireType === WIRE_VARINT) {
+      algorithm = reader.readVarint();
+    } else if (field === 5 && wireType === WIRE_VARINT) {
+      digitCount = reader.readVarint();
+    } else if (field === 6 && wireType === WIRE_VARINT) {
+      otpType = reader.readVarint();
+    } else if (field === 7 && wireType === WIRE_VARINT) {
+      counter = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const label = name || issuer || 'Unnamed account';
+  const mappedAlgorithm = ALGORITHMS[algorithm];
+  const digits = DIGIT_COUNTS[digitCount];
+  if (!mappedAlgorithm) {
+    return { unsupported: `${label}: unsupported algorithm` };
+  }
+  if (!digits) {
+    return { unsupported: `${label}: unsupported number of digits` };
+  }
+  if (secret.length === 0) {
+    return { unsupported: `${label}: missing secret` };
+  }
+
+  const isHOTP = otpType === OTP_TYPE_HOTP;
+  return {
+    entry: {
+      type: isHOTP ? 'hotp' : 'totp',
+      label,
+      secret: bytesToBase32(secret),
+      issuer: issuer || undefined,
+      algorithm: mappedAlgorithm,
+      digits,
+      period: isHOTP ? undefined : MIGRATION_PERIOD,
+      counter: isHOTP ? counter : undefined,
+    },
+  };
+};
+
+/**
+ * Decode an otpauth-migration://offline?data=... URL into its accounts
+ * Throws if the URL or payload is malformed
+ */
+export const decodeMigrationURL = (url: string): MigrationBatch => {
+  if (!isMigrationURL(url)) {
+    throw new Error('Not a Google Authenticator export');
+  }
+
+  const match = url.trim().match(/[?&]data=([^&]+)/);
+  if (!match) {
+    throw new Error('Export QR code has no data');
+  }
+
+  // Scanners sometimes turn an unescaped '+' into a space
+  const data = decodeURIComponent(match[1]).replace(/ /g, '+');
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(data);
+  } catch {
+    throw new Error('Export QR code data is not valid Base64');
+  }
+
+  const reader = new ProtobufReader(bytes);
+  const batch: MigrationBatch = {
+    batchId: 0,
+    batchIndex: 0,
+    batchSize: 1,
+    entries: [],
+    unsupported: [],
+  };
+
+  while (reader.hasMore()) {
+    const [field, wireType] = reader.readKey();
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      const { entry, unsupported } = decodeOtpParameters(reader.readBytes());
+      if (entry) batch.entries.push(entry);
+      if (unsupported) batch.unsupported.push(unsupported);
+    } else if (field === 3 && wireType === WIRE_VARINT) {
+      batch.batchSize = Math.max(1, reader.readVarint());
+    } else if (field === 4 && wireType === WIRE_VARINT) {
+      batch.batchIndex = reader.readVarint();
+    } else if (field === 5 && wireType === WIRE_VARINT) {
+      batch.batchId = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  if (batch.batchIndex >= batch.batchSize) {
+    throw new Error('Export QR code has an invalid batch index');
+  }
+
+  return batch;
+};
+
+/**
+ * Encode one account as OtpParameters, or a reason it cannot be exported
+ */
+const encodeOtpParameters = (
+  account: LocalTOTPAccount
+): { bytes?: Uint8Array; unsupported?: string } => {
+  const label = `${account.serviceName} (${account.accountName})`;
+  const type = account.type || 'totp';
+  const algorithm = ALGORITHM_VALUES[account.algorithm];
+  const digitCount = DIGIT_COUNT_VALUES[account.digits];
+
+  if (type !== 'totp' && type !== 'hotp') {
+    return { unsupported: `${label}: ${type} accounts cannot be exported` };
+  }
+  if (account.encoder && account.encoder !== 'default') {
+    return { unsupported: `${label}: Steam Guard codes cannot be exported` };
+  }
+  if (!algorithm || !digitCount) {
+    return {
+      unsupported: `${label}: ${account.algorithm} with ${account.digits} digits cannot be exported`,
+    };
+  }
+  if (type === 'totp' && account.period !== MIGRATION_PERIOD) {
+    return {
+      unsupported: `${label}: only ${MIGRATION_PERIOD}-second codes can be exported`,
+    };
+  }
+
+  const writer = new ProtobufWriter()
+    .writeBytes(1, base32ToBytes(account.secret.replace(/\s/g, '')))
+    .writeString(2, `${account.serviceName}:${account.accountName}`)
+    .writeString(3, account.serviceName)
+    .writeVarint(4, algorithm)
+    .writeVarint(5, digitCount)
+    .writeVarint(6, type === 'hotp' ? OTP_TYPE_HOTP : OTP_TYPE_TOTP);
+  if (type === 'hotp') {
+    writer.writeVarint(7, account.counter ?? 0);
+  }
+  return { bytes: writer.finish() };
+};
+
+/**
+ * Build Google Authenticator export URLs for the given accounts
+ * Accounts are packed in order into QR codes of at most `maxPayloadBytes`;
+ * an account that does not fit on its own still gets a code of its own.
+ */
+export const createMigrationURLs = (
+  accounts: LocalTOTPAccount[],
+  options?: { maxPayloadBytes?: number; batchId?: number }
+): MigrationExport => {
+  const maxPayloadBytes =
+    options?.maxPayloadBytes ?? GOOGLE_MIGRATION.MAX_PAYLOAD_BYTES;
+  const unsupported: string[] = [];
+  const groups: Uint8Array[][] = [];
+  let current: Uint8Array[] = [];
+  let currentSize = 0;
+
+  for (const account of accounts) {
+    const { bytes, unsupported: reason } = encodeOtpParameters(account);
+    if (!bytes) {
+      unsupported.push(reason || account.serviceName);
+      continue;
+    }
+
+    // Field key plus a length prefix of at most three bytes
+    const entrySize = bytes.length + 4;
+    if (current.length > 0 && currentSize + entrySize > maxPayloadBytes) {
+      groups.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(bytes);
+    currentSize += entrySize;
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  const batchId =
+    options?.batchId ??
+    new DataView(Crypto.getRandomBytes(4).buffer).getUint32(0) % 0x80000000;
+
+  const urls = groups.map((entries, batchIndex) => {
+    const writer = new ProtobufWriter();
+    entries.forEach(entry => writer.writeBytes(1, entry));
+    writer
+      .writeVarint(2, GOOGLE_MIGRATION.PAYLOAD_VERSION)
+      .writeVarint(3, groups.length)
+      .writeVarint(4, batchIndex)
+      .writeVarint(5, batchId);
+    return `${MIGRATION_URL_PREFIX}?data=${encodeURIComponent(
+      bytesToBase64(writer.finish())
+    )}`;
+  });
+
+  return { urls, unsupported };
+};
@@ -0,0 +1,306 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { TOTPAccount } from '@/types';
+import { NETWORK, STORAGE_KEYS } from '@/utils/constants';
+
+export type QueuedOperationType = 'create' | 'update' | 'delete';
+
+/**
+ * A Firestore mutation waiting for connectivity
+ * Payloads only ever hold already-encrypted account data
+ */
+export interface QueuedOperation {
+  id: string;
+  type: QueuedOperationType;
+  userId: string;
+  accountId: string;
+  payload?: Partial<Omit<TOTPAccount, 'userId' | 'createdAt' | 'updatedAt'>>;
+  deletedAt?: number;
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'queued' | 'failed';
+  lastError?: string;
+}
+
+export type QueueExecutor = (operation: QueuedOperation) => Promise<void>;
+
+/**
+ * Firestore error codes that mean the backend could not be reached
+ */
+const NETWORK_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+/**
+ * Check whether an error means Firestore was unreachable (vs. rejected the write)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const code = (error as { code?: string })?.code || '';
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return (
+    NETWORK_ERROR_CODES.some(networkCode => code.endsWith(networkCode)) ||
+    message.includes('offline')
+  );
+};
+
+/**
+ * Durable, ordered queue of create/update/delete operations for sync
+ * Operations are persisted in AsyncStorage and replayed in order with
+ * exponential backoff once Firestore is reachable again
+ */
+export class OfflineQueue {
+  private static instance: OfflineQueue;
+  private operations: QueuedOperation[] | null = null;
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+  private isReplaying = false;
+  // Bumped by clear() so a replay in flight does not restore cleared operations
+  private generation = 0;
+
+  private constructor() {}
+
+  public static getInstance(): OfflineQueue {
+    if (!OfflineQueue.instance) {
+      OfflineQueue.instance = new OfflineQueue();
+    }
+    return OfflineQueue.instance;
+  }
+
+  /**
+   * Get all queued and failed operations in order
+   */
+  public async getOperations(): Promise<QueuedOperation[]> {
+    if (!this.operations) {
+      try {
+        const data = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
+        this.operations = data ? JSON.parse(data) : [];
+      } catch (error) {
+        console.error('Failed to load offline queue:', error);
+        this.operations = [];
+      }
+    }
+    return this.operations!;
+  }
+
+  /**
+   * Get the queued and failed operations of one user in order
+   */
+  public async getUserOperations(userId: string): Promise<QueuedOperation[]> {
+    return (await this.getOperations()).filter(
+      operation => operation.userId === userId
+    );
+  }
+
+  /**
+   * Append an operation to the end of the queue
+   */
+  public async enqueue(
+    operation: Pick<
+      QueuedOperation,
+      'type' | 'userId' | 'accountId' | 'payload' | 'deletedAt'
+    >
+  ): Promise<QueuedOperation> {
+    const operations = await this.getOperations();
+    const queued: QueuedOperation = {
+      ...operation,
+      id: Crypto.randomUUID(),
+      enqueuedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      status: 'queued',
+    };
+
+    await this.persist([...operations, queued]);
+    return queued;
+  }
+
+  /**
+   * Replay the due operations of one user in order
+   * Stops at the first network failure or operation still backing off so later
+   * operations never overtake earlier ones; operations rejected by the server
+   * are retried with backoff and marked failed after NETWORK.RETRY_ATTEMPTS,
+   * holding back later operations for the same account
+   */
+  public async replay(
+    userId: string,
+    executor: QueueExecutor
+  ): Promise<{ completed: number; failed: number; remaining: number }> {
+    if (this.isReplaying) {
+      const operations = await this.getUserOperations(userId);
+      return { completed: 0, failed: 0, remaining: operations.length };
+    }
+
+    this.isReplaying = true;
+    const generation = this.generation;
+    let completed = 0;
+    let failed = 0;
+
+    try {
+      const operations = [...(await this.getOperations())];
+      const remaining: QueuedOperation[] = [];
+      const heldAccounts = new Set<string>();
+      let blocked = false;
+
+      for (const operation of operations) {
+        // Another account's writes wait until that user signs in again
+        if (operation.userId !== userId) {
+          remaining.push(operation);
+          continue;
+        }
+        if (operation.status === 'failed') {
+          heldAccounts.add(operation.accountId);
+        } else if (operation.nextAttemptAt > Date.now()) {
+          blocked = true;
+        }
+        if (
+          blocked ||
+          operation.status === 'failed' ||
+          heldAccounts.has(operation.accountId)
+        ) {
+          remaining.push(operation);
+          continue;
+        }
+
+        try {
+          await executor(operation);
+          completed++;
+        } catch (error) {
+          const attempts = operation.attempts + 1;
+          const retry: QueuedOperation = {
+            ...operation,
+            attempts,
+            nextAttemptAt: Date.now() + this.getBackoffDelay(attempts),
+            lastError: error instanceof Error ? error.message : 'Unknown error',
+          };
+
+          if (isNetworkError(error)) {
+            // Still offline: keep order and wait for the next attempt
+            blocked = true;
+          } else {
+            heldAccounts.add(operation.accountId);
+            if (attempts >= NETWORK.RETRY_ATTEMPTS) {
+              retry.status = 'failed';
+              failed++;
+            }
+          }
+          remaining.push(retry);
+        }
+      }
+
+      if (generation !== this.generation) {
+        return { completed, failed, remaining: 0 };
+      }
+
+      // Keep operations that were enqueued while this replay was running
+      const known = new Set(operations.map(operation => operation.id));
+      const added = (await this.getOperations()).filter(
+        operation => !known.has(operation.id)
+      );
+
+      await this.persist([...remaining, ...added]);
+      return {
+        completed,
+        failed,
+        remaining: [...remaining, ...added].filter(
+          operation => operation.userId === userId
+        ).length,
+      };
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * Schedule a replay for when the user's next operation becomes due
+   */
+  public async scheduleReplay(
+    userId: string,
+    executor: QueueExecutor
+  ): Promise<void> {
+    const pending = (await this.getUserOperations(userId)).filter(
+      operation => operation.status === 'queued'
+    );
+
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+    if (pending.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...pending.map(op => op.nextAttemptAt));
+    const delay = Math.max(0, nextAttemptAt - Date.now());
+
+    this.replayTimer = setTimeout(async () => {
+      this.replayTimer = null;
+      await this.replay(userId, executor);
+      await this.scheduleReplay(userId, executor);
+    }, delay);
+  }
+
+  /**
+   * Stop any scheduled replay (e.g. on sign-out)
+   */
+  public cancelReplay(): void {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  /**
+   * Put a failed operation back in the queue for another round of attempts
+   */
+  public async retryOperation(operationId: string): Promise<void> {
+    const operations = await this.getOperations();
+    await this.persist(
+      operations.map(operation =>
+        operation.id === operationId
+          ? {
+              ...operation,
+              status: 'queued' as const,
+              attempts: 0,
+              nextAttemptAt: Date.now(),
+            }
+          : operation
+      )
+    );
+  }
+
+  /**
+   * Drop an operation from the queue
+   */
+  public async discardOperation(operationId: string): Promise<void> {
+    const operations = await this.getOperations();
+    await this.persist(
+      operations.filter(operation => operation.id !== operationId)
+    );
+  }
+
+  /**
+   * Remove every user's queued operations (e.g. when all data is deleted)
+   */
+  public async clear(): Promise<void> {
+    this.cancelReplay();
+    this.generation++;
+    this.operations = [];
+    await AsyncStorage.removeItem(STORAGE_KEYS.OFFLINE_QUEUE);
+  }
+
+  /**
+   * Exponential backoff capped at the offline retry interval
+   */
+  private getBackoffDelay(attempts: number): number {
+    return Math.min(
+      NETWORK.RETRY_DELAY * Math.pow(2, attempts - 1),
+      NETWORK.OFFLINE_RETRY_INTERVAL
+    );
+  }
+
+  private async persist(operations: QueuedOperation[]): Promise<void> {
+    this.operations = operations;
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.OFFLINE_QUEUE,
+      JSON.stringify(operations)
+    );
+  }
+}
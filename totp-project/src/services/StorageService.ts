@@ -1,17 +1,37 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Keychain from 'react-native-keychain';
 import * as Crypto from 'expo-crypto';
-import { LocalTOTPAccount } from '@/types';
+import {
+  AccountConflict,
+  AccountTombstone,
+  LocalTOTPAccount,
+  SyncAncestor,
+  SyncCursorState,
+} from '@/types';
+import {
+  base64ToBytes,
+  bytesToHex,
+  hexToBytes,
+  isCipherEnvelope,
+  openEnvelope,
+  sealEnvelope,
+} from '@/utils/crypto';
+import { OfflineQueue } from './OfflineQueue';
 
 const STORAGE_KEYS = {
   ACCOUNTS: '@totp_accounts',
+  TOMBSTONES: '@totp_tombstones',
+  SYNC_CURSOR: '@sync_cursor',
+  SYNC_ANCESTORS: '@sync_ancestors',
+  SYNC_CONFLICTS: '@sync_conflicts',
   ENCRYPTION_KEY: 'totp_encryption_key',
   USER_PREFERENCES: '@user_preferences',
 } as const;
 
 /**
  * Secure Storage Service for TOTP accounts and sensitive data
- * Uses react-native-keychain for encryption keys and AsyncStorage for encrypted data
+ * Uses react-native-keychain for encryption keys and AsyncStorage for
+ * AES-256-GCM encrypted data
  */
 export class StorageService {
   private static instance: StorageService;
@@ -72,9 +92,7 @@ export class StorageService {
    */
   private async generateEncryptionKey(): Promise<string> {
     const randomBytes = Crypto.getRandomBytes(32); // 256 bits
-    return Array.from(randomBytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+    return bytesToHex(randomBytes);
   }
 
   /**
@@ -89,85 +107,67 @@ export class StorageService {
   }
 
   /**
-   * Encrypt data using a simple XOR cipher with expo-crypto generated key
-   * Note: This is a simplified approach for React Native compatibility
+   * Get the raw AES-256 key bytes from the hex key held in the keychain
    */
-  public async encrypt(data: string): Promise<string> {
+  private getKeyBytes(): Uint8Array {
     if (!this.encryptionKey) {
       throw new Error('Encryption key not available');
     }
+    return hexToBytes(this.encryptionKey);
+  }
 
-    try {
-      const encoder = new TextEncoder();
-      const dataBytes = encoder.encode(data);
-      
-      // Convert hex key to bytes
-      const keyBytes = new Uint8Array(
-        this.encryptionKey.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-      );
-
-      // Generate a random IV
-      const iv = Crypto.getRandomBytes(16);
-      
-      // Simple XOR encryption with key stretching
-      const encrypted = new Uint8Array(dataBytes.length);
-      for (let i = 0; i < dataBytes.length; i++) {
-        const keyIndex = i % keyBytes.length;
-        const ivIndex = i % iv.length;
-        encrypted[i] = dataBytes[i] ^ keyBytes[keyIndex] ^ iv[ivIndex];
-      }
-
-      // Combine IV and encrypted data
-      const combined = new Uint8Array(iv.length + encrypted.length);
-      combined.set(iv);
-      combined.set(encrypted, iv.length);
+  /**
+   * Encrypt data with AES-256-GCM into a versioned envelope
+   */
+  public async encrypt(data: string): Promise<string> {
+    const keyBytes = this.getKeyBytes();
 
-      // Convert to base64
-      return btoa(String.fromCharCode(...combined));
+    try {
+      return sealEnvelope(keyBytes, data);
     } catch (error) {
       throw new Error('Failed to encrypt data: ' + (error as Error).message);
     }
   }
 
   /**
-   * Decrypt data using the same XOR cipher
+   * Decrypt and authenticate an AES-256-GCM envelope
+   * Tampered or truncated envelopes are rejected
    */
   public async decrypt(encryptedData: string): Promise<string> {
-    if (!this.encryptionKey) {
-      throw new Error('Encryption key not available');
-    }
+    const keyBytes = this.getKeyBytes();
 
     try {
-      // Convert from base64
-      const combined = new Uint8Array(
-        atob(encryptedData).split('').map(char => char.charCodeAt(0))
-      );
-
-      // Extract IV and encrypted data
-      const iv = combined.slice(0, 16);
-      const encrypted = combined.slice(16);
-
-      // Convert hex key to bytes
-      const keyBytes = new Uint8Array(
-        this.encryptionKey.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-      );
-
-      // Decrypt using XOR
-      const decrypted = new Uint8Array(encrypted.length);
-      for (let i = 0; i < encrypted.length; i++) {
-        const keyIndex = i % keyBytes.length;
-        const ivIndex = i % iv.length;
-        decrypted[i] = encrypted[i] ^ keyBytes[keyIndex] ^ iv[ivIndex];
-      }
-
-      // Convert back to string
-      const decoder = new TextDecoder();
-      return decoder.decode(decrypted);
+      return openEnvelope(keyBytes, encryptedData);
     } catch (error) {
       throw new Error('Failed to decrypt data: ' + (error as Error).message);
     }
   }
 
+  /**
+   * Decrypt data written by the legacy XOR cipher (pre-AES-GCM vaults)
+   * Only used to migrate existing blobs; never used for new writes
+   */
+  private decryptLegacy(encryptedData: string): string {
+    const keyBytes = this.getKeyBytes();
+
+    // Convert from base64
+    const combined = base64ToBytes(encryptedData);
+
+    // Extract IV and encrypted data
+    const iv = combined.slice(0, 16);
+    const encrypted = combined.slice(16);
+
+    // Decrypt using XOR
+    const decrypted = new Uint8Array(encrypted.length);
+    for (let i = 0; i < encrypted.length; i++) {
+      const keyIndex = i % keyBytes.length;
+      const ivIndex = i % iv.length;
+      decrypted[i] = encrypted[i] ^ keyBytes[keyIndex] ^ iv[ivIndex];
+    }
+
+    return new TextDecoder().decode(decrypted);
+  }
+
   /**
    * Save TOTP accounts to encrypted storage
    */
@@ -180,6 +180,7 @@ export class StorageService {
         accounts.map(async account => ({
           ...account,
           secret: await this.encrypt(account.secret),
+          pin: account.pin ? await this.encrypt(account.pin) : undefined,
         }))
       );
 
@@ -193,16 +194,28 @@ export class StorageService {
 
   /**
    * Load TOTP accounts from encrypted storage
+   * Legacy XOR-encrypted vaults are migrated to AES-256-GCM on first load
    */
   public async loadAccounts(): Promise<LocalTOTPAccount[]> {
+    await this.initialize();
+
+    let encryptedData: string | null;
     try {
-      await this.initialize();
+      encryptedData = await AsyncStorage.getItem(STORAGE_KEYS.ACCOUNTS);
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+      return [];
+    }
 
-      const encryptedData = await AsyncStorage.getItem(STORAGE_KEYS.ACCOUNTS);
-      if (!encryptedData) {
-        return [];
-      }
+    if (!encryptedData) {
+      return [];
+    }
 
+    if (!isCipherEnvelope(encryptedData)) {
+      return this.migrateLegacyAccounts(encryptedData);
+    }
+
+    try {
       const decryptedData = await this.decrypt(encryptedData);
       const encryptedAccounts = JSON.parse(decryptedData);
 
@@ -211,13 +224,41 @@ export class StorageService {
         encryptedAccounts.map(async (account: any) => ({
           ...account,
           secret: await this.decrypt(account.secret),
+          pin: account.pin ? await this.decrypt(account.pin) : undefined,
         }))
       );
 
       return accounts;
     } catch (error) {
+      // Never fall back to an empty list here: callers would overwrite the vault
       console.error('Failed to load accounts:', error);
-      return [];
+      throw new Error('Failed to load accounts from storage');
+    }
+  }
+
+  /**
+   * Decrypt a legacy XOR vault and re-save it with AES-256-GCM
+   */
+  private async migrateLegacyAccounts(
+    legacyData: string
+  ): Promise<LocalTOTPAccount[]> {
+    try {
+      const encryptedAccounts = JSON.parse(this.decryptLegacy(legacyData));
+
+      const accounts: LocalTOTPAccount[] = encryptedAccounts.map(
+        (account: any) => ({
+          ...account,
+          secret: this.decryptLegacy(account.secret),
+        })
+      );
+
+      await this.saveAccounts(accounts);
+      console.log(`Migrated ${accounts.length} accounts to AES-256-GCM`);
+
+      return accounts;
+    } catch (error) {
+      console.error('Failed to migrate legacy accounts:', error);
+      throw new Error('Failed to migrate accounts to encrypted storage');
     }
   }
 
@@ -233,6 +274,97 @@ export class StorageService {
     }
   }
 
+  /**
+   * Save deletion tombstones
+   * Tombstones only hold account ids and timestamps, so they are not encrypted
+   */
+  public async saveTombstones(tombstones: AccountTombstone[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.TOMBSTONES,
+        JSON.stringify(tombstones)
+      );
+    } catch (error) {
+      console.error('Failed to save tombstones:', error);
+      throw new Error('Failed to save tombstones to storage');
+    }
+  }
+
+  /**
+   * Load deletion tombstones
+   */
+  public async loadTombstones(): Promise<AccountTombstone[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.TOMBSTONES);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Failed to load tombstones:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the last agreed state of each account used as the merge base
+   * Ancestors contain secrets, so they are encrypted like the accounts
+   */
+  public async saveSyncAncestors(ancestors: SyncAncestor[]): Promise<void> {
+    try {
+      await this.initialize();
+
+      const encryptedData = await this.encrypt(JSON.stringify(ancestors));
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_ANCESTORS, encryptedData);
+    } catch (error) {
+      console.error('Failed to save sync ancestors:', error);
+      throw new Error('Failed to save sync ancestors to storage');
+    }
+  }
+
+  /**
+   * Load the merge base for each account
+   */
+  public async loadSyncAncestors(): Promise<SyncAncestor[]> {
+    try {
+      await this.initialize();
+
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_ANCESTORS);
+      return data ? JSON.parse(await this.decrypt(data)) : [];
+    } catch (error) {
+      console.error('Failed to load sync ancestors:', error);
+      throw new Error('Failed to load sync ancestors from storage');
+    }
+  }
+
+  /**
+   * Save sync conflicts waiting for the user to resolve them
+   * Conflicting values can be secrets, so they are encrypted as well
+   */
+  public async saveSyncConflicts(conflicts: AccountConflict[]): Promise<void> {
+    try {
+      await this.initialize();
+
+      const encryptedData = await this.encrypt(JSON.stringify(conflicts));
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_CONFLICTS, encryptedData);
+    } catch (error) {
+      console.error('Failed to save sync conflicts:', error);
+      throw new Error('Failed to save sync conflicts to storage');
+    }
+  }
+
+  /**
+   * Load unresolved sync conflicts
+   */
+  public async loadSyncConflicts(): Promise<AccountConflict[]> {
+    try {
+      await this.initialize();
+
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_CONFLICTS);
+      return data ? JSON.parse(await this.decrypt(data)) : [];
+    } catch (error) {
+      console.error('Failed to load sync conflicts:', error);
+      throw new Error('Failed to load sync conflicts from storage');
+    }
+  }
+
   /**
    * Save user preferences
    */
@@ -290,8 +422,14 @@ export class StorageService {
     try {
       await Promise.all([
         AsyncStorage.removeItem(STORAGE_KEYS.ACCOUNTS),
+        AsyncStorage.removeItem(STORAGE_KEYS.TOMBSTONES),
+        AsyncStorage.removeItem(STORAGE_KEYS.SYNC_CURSOR),
+        AsyncStorage.removeItem(STORAGE_KEYS.SYNC_ANCESTORS),
+        AsyncStorage.removeItem(STORAGE_KEYS.SYNC_CONFLICTS),
+        AsyncStorage.removeItem('@last_sync_time'),
         AsyncStorage.removeItem(STORAGE_KEYS.USER_PREFERENCES),
         AsyncStorage.removeItem('@biometric_enabled'),
+        OfflineQueue.getInstance().clear(),
       ]);
 
       // Clear keychain separately
@@ -342,6 +480,71 @@ export class StorageService {
     }
   }
 
+  /**
+   * Get the user and schema version the sync cursor was recorded for
+   */
+  public async getSyncCursorState(): Promise<SyncCursorState | null> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_CURSOR);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Failed to get sync cursor:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Advance the sync cursor together with the user and schema it belongs to
+   * Both keys are written in one multiSet so they can never disagree
+   */
+  public async setSyncCursor(
+    timestamp: number,
+    state: SyncCursorState
+  ): Promise<void> {
+    try {
+      await AsyncStorage.multiSet([
+        ['@last_sync_time', timestamp.toString()],
+        [STORAGE_KEYS.SYNC_CURSOR, JSON.stringify(state)],
+      ]);
+    } catch (error) {
+      console.error('Failed to set sync cursor:', error);
+      throw new Error('Failed to set sync cursor');
+    }
+  }
+
+  /**
+   * Forget the sync cursor so the next sync downloads everything
+   */
+  public async resetSyncCursor(): Promise<void> {
+    await AsyncStorage.multiRemove([
+      '@last_sync_time',
+      STORAGE_KEYS.SYNC_CURSOR,
+    ]);
+  }
+
+  /**
+   * Check whether a one-time data migration has already run on this device
+   */
+  public async isMigrationComplete(name: string): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(`@migration_${name}`)) === 'true';
+    } catch (error) {
+      console.error('Failed to get migration state:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that a one-time data migration has run on this device
+   */
+  public async setMigrationComplete(name: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`@migration_${name}`, 'true');
+    } catch (error) {
+      console.error('Failed to set migration state:', error);
+    }
+  }
+
   /**
    * Check if storage is properly initialized
    */
@@ -0,0 +1,212 @@
+import { doc, getDoc, runTransaction } from 'firebase/firestore';
+import * as Keychain from 'react-native-keychain';
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { db, COLLECTIONS } from './firebase';
+import { VaultKeyInfo } from '@/types';
+import { SECURITY } from '@/utils/constants';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+  hexToBytes,
+  openEnvelope,
+  sealEnvelope,
+  timingSafeEqual,
+} from '@/utils/crypto';
+
+const SYNC_KEY_SERVICE = 'totp_sync_key';
+const SALT_LENGTH = 16;
+const DATA_KEY_LENGTH = 32;
+
+/**
+ * End-to-end Sync Key Service
+ * Derives a key-encryption key from the user's vault passphrase and uses it to
+ * wrap a random data key. Secrets are encrypted with the data key before they
+ * reach Firestore, so every device that knows the passphrase can decrypt them
+ * while Firebase only ever sees ciphertext.
+ */
+export class SyncKeyService {
+  private static instance: SyncKeyService;
+  private dataKey: Uint8Array | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SyncKeyService {
+    if (!SyncKeyService.instance) {
+      SyncKeyService.instance = new SyncKeyService();
+    }
+    return SyncKeyService.instance;
+  }
+
+  /**
+   * Check whether the data key is available in memory
+   */
+  public isUnlocked(): boolean {
+    return this.dataKey !== null;
+  }
+
+  /**
+   * Get the vault parameters stored in the user document, if any
+   */
+  public async getVaultInfo(userId: string): Promise<VaultKeyInfo | null> {
+    const userDoc = await getDoc(doc(db, COLLECTIONS.USERS, userId));
+    if (!userDoc.exists()) {
+      return null;
+    }
+    return (userDoc.data().vault as VaultKeyInfo | undefined) || null;
+  }
+
+  /**
+   * Create a new vault protected by the given passphrase
+   * The vault is written in a transaction so two devices setting up at the same
+   * time cannot overwrite each other's data key
+   */
+  public async setupVault(userId: string, passphrase: string): Promise<void> {
+    const salt = Crypto.getRandomBytes(SALT_LENGTH);
+    const iterations = SECURITY.KEY_DERIVATION_ITERATIONS;
+    const { wrappingKey, verifier } = await this.deriveKeys(
+      passphrase,
+      salt,
+      iterations
+    );
+
+    const dataKey = Crypto.getRandomBytes(DATA_KEY_LENGTH);
+    const vault: VaultKeyInfo = {
+      kdf: 'PBKDF2-SHA256',
+      iterations,
+      salt: bytesToBase64(salt),
+      verifier: bytesToBase64(verifier),
+      wrappedKey: sealEnvelope(wrappingKey, bytesToHex(dataKey)),
+    };
+
+    const userRef = doc(db, COLLECTIONS.USERS, userId);
+    await runTransaction(db, async transaction => {
+      const userDoc = await transaction.get(userRef);
+      if (userDoc.exists() && userDoc.data().vault) {
+        throw new Error('A sync vault already exists for this account');
+      }
+      transaction.set(userRef, { vault }, { merge: true });
+    });
+    await this.setDataKey(userId, dataKey);
+  }
+
+  /**
+   * Unlock the vault with the user's passphrase
+   * Returns false when the passphrase is wrong
+   */
+  public async unlock(userId: string, passphrase: string): Promise<boolean> {
+    const vault = await this.getVaultInfo(userId);
+    if (!vault) {
+      throw new Error('No sync vault has been set up for this account');
+    }
+
+    const { wrappingKey, verifier } = await this.deriveKeys(
+      passphrase,
+      base64ToBytes(vault.salt),
+      vault.iterations
+    );
+
+    if (!timingSafeEqual(verifier, base64ToBytes(vault.verifier))) {
+      return false;
+    }
+
+    const dataKey = hexToBytes(openEnvelope(wrappingKey, vault.wrappedKey));
+    await this.setDataKey(userId, dataKey);
+    return true;
+  }
+
+  /**
+   * Restore a data key previously cached in the keychain for this user
+   */
+  public async restoreCachedKey(userId: string): Promise<boolean> {
+    try {
+      const credentials =
+        await Keychain.getInternetCredentials(SYNC_KEY_SERVICE);
+
+      if (
+        credentials &&
+        credentials.password &&
+        credentials.username === userId
+      ) {
+        this.dataKey = hexToBytes(credentials.password);
+        return true;
+      }
+    } catch (error) {
+      console.log('No cached sync key found');
+    }
+    return false;
+  }
+
+  /**
+   * Forget the data key in memory and in the keychain
+   */
+  public async lock(): Promise<void> {
+    this.dataKey = null;
+    try {
+      await Keychain.resetInternetCredentials({ server: SYNC_KEY_SERVICE });
+    } catch (error) {
+      console.error('Failed to clear cached sync key:', error);
+    }
+  }
+
+  /**
+   * Encrypt a value for upload to Firestore
+   */
+  public encrypt(data: string): string {
+    return sealEnvelope(this.requireDataKey(), data);
+  }
+
+  /**
+   * Decrypt a value downloaded from Firestore
+   */
+  public decrypt(encryptedData: string): string {
+    return openEnvelope(this.requireDataKey(), encryptedData);
+  }
+
+  private requireDataKey(): Uint8Array {
+    if (!this.dataKey) {
+      throw new Error('Sync vault is locked');
+    }
+    return this.dataKey;
+  }
+
+  /**
+   * Keep the data key in memory and cache it in the device keychain
+   */
+  private async setDataKey(userId: string, dataKey: Uint8Array): Promise<void> {
+    this.dataKey = dataKey;
+    await Keychain.setInternetCredentials(
+      SYNC_KEY_SERVICE,
+      userId,
+      bytesToHex(dataKey)
+    );
+  }
+
+  /**
+   * Derive the key-wrapping key and the passphrase verifier
+   * A single PBKDF2 run yields 64 bytes: the first half wraps the data key and
+   * the hash of the second half is stored as the verifier
+   */
+  private async deriveKeys(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<{ wrappingKey: Uint8Array; verifier: Uint8Array }> {
+    const derived = await pbkdf2Async(
+      sha256,
+      passphrase.normalize('NFKC'),
+      salt,
+      {
+        c: iterations,
+        dkLen: 64,
+      }
+    );
+
+    return {
+      wrappingKey: derived.slice(0, 32),
+      verifier: sha256(derived.slice(32)),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  FieldConflict,
+  LocalTOTPAccount,
+  SyncedAccountFields,
+  SyncedField,
+} from '@/types';
+
+/**
+ * Account fields that take part in the three-way merge
+ */
+export const SYNCED_FIELDS: SyncedField[] = [
+  'serviceName',
+  'accountName',
+  'secret',
+  'pin',
+  'algorithm',
+  'digits',
+  'period',
+  'iconUrl',
+  'type',
+  'counter',
+  'encoder',
+  'ocraSuite',
+  'timeOffsetSeconds',
+  'group',
+  'notes',
+];
+
+export interface MergeResult {
+  merged: SyncedAccountFields; // values to keep on this device
+  ancestor: Partial<SyncedAccountFields>; // new merge base once uploaded
+  localChanges: SyncedField[]; // fields to upload
+  cloudChanges: SyncedField[]; // fields taken from the cloud
+  conflicts: FieldConflict[]; // fields both sides changed differently
+}
+
+/**
+ * Set one synchronized field while keeping the value type-checked
+ */
+export const assignField = <K extends SyncedField>(
+  target: Partial<SyncedAccountFields>,
+  field: K,
+  value: Partial<SyncedAccountFields>[K]
+): void => {
+  target[field] = value;
+};
+
+/**
+ * Whether an icon is embedded as a data: URL (e.g. imported from Aegis)
+ * Embedded icons stay on the device instead of bloating every cloud document
+ */
+export const isInlineIcon = (iconUrl: string | undefined): boolean =>
+  !!iconUrl && iconUrl.startsWith('data:');
+
+/**
+ * Extract the synchronized fields of a local account
+ */
+export const pickSyncedFields = (
+  account: LocalTOTPAccount
+): SyncedAccountFields => ({
+  serviceName: account.serviceName,
+  accountName: account.accountName,
+  secret: account.secret,
+  pin: account.pin,
+  algorithm: account.algorithm,
+  digits: account.digits,
+  period: account.period,
+  iconUrl: isInlineIcon(account.iconUrl) ? undefined : account.iconUrl,
+  type: account.type,
+  counter: account.counter,
+  encoder: account.encoder,
+  ocraSuite: account.ocraSuite,
+  timeOffsetSeconds: account.timeOffsetSeconds,
+  group: account.group,
+  notes: account.notes,
+});
+
+/**
+ * Apply synchronized fields to a local account
+ * An inline icon is kept unless the fields bring an icon of their own
+ */
+export const applySyncedFields = (
+  account: LocalTOTPAccount,
+  fields: SyncedAccountFields
+): LocalTOTPAccount => ({
+  ...account,
+  ...fields,
+  iconUrl:
+    fields.iconUrl ??
+    (isInlineIcon(account.iconUrl) ? account.iconUrl : undefined),
+});
+
+/**
+ * Merge local and cloud edits field by field against their common ancestor
+ * A field changed on one side only takes that side's value. A field changed
+ * on both sides to different values is a conflict: the local value is kept,
+ * nothing is uploaded for it and the ancestor keeps the old base so the
+ * conflict is detected again until the user resolves it.
+ * HOTP counters never conflict: the higher counter always wins so a counter
+ * that was used on any device is never handed out again.
+ */
+export const mergeAccountFields = (
+  base: Partial<SyncedAccountFields> | undefined,
+  local: SyncedAccountFields,
+  cloud: SyncedAccountFields
+): MergeResult => {
+  const merged = { ...local };
+  const ancestor: Partial<SyncedAccountFields> = {};
+  const localChanges: SyncedField[] = [];
+  const cloudChanges: SyncedField[] = [];
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of SYNCED_FIELDS) {
+    const localValue = local[field];
+    const cloudValue = cloud[field];
+    const baseValue = base?.[field];
+
+    if (localValue === cloudValue) {
+      assignField(ancestor, field, localValue);
+    } else if (field === 'counter') {
+      const counter = Math.max(
+        (localValue as number | undefined) ?? 0,
+        (cloudValue as number | undefined) ?? 0
+      );
+      merged.counter = counter;
+      ancestor.counter = counter;
+      if (counter !== cloudValue) localChanges.push(field);
+      if (counter !== localValue) cloudChanges.push(field);
+    } else if (base && localValue === baseValue) {
+      assignField(merged, field, cloudValue);
+      assignField(ancestor, field, cloudValue);
+      cloudChanges.push(field);
+    } else if (base && cloudValue === baseValue) {
+      assignField(ancestor, field, localValue);
+      localChanges.push(field);
+    } else {
+      if (base && field in base) {
+        assignField(ancestor, field, baseValue);
+      }
+      conflicts.push({
+        field,
+        base: baseValue,
+        local: localValue,
+        cloud: cloudValue,
+      });
+    }
+  }
+
+  return { merged, ancestor, localChanges, cloudChanges, conflicts };
+};
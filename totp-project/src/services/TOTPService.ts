@@ -1,17 +1,58 @@
-import { totp, authenticator } from '@otplib/preset-browser';
 import * as thirtyTwo from 'thirty-two';
 import * as Crypto from 'expo-crypto';
-import { TOTPOptions, TOTPAccount, QRCodeResult } from '@/types';
+import { hmac } from '@noble/hashes/hmac';
+import { md5, sha1 } from '@noble/hashes/legacy';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  TOTPOptions,
+  TOTPAccount,
+  QRCodeResult,
+  CodeEncoder,
+  Clock,
+  LocalTOTPAccount,
+  OTPType,
+  OCRASuite,
+  OCRAInputs,
+  TOTPParameters,
+  ApiResponse,
+  NormalizedSecret,
+  SecretEncoding,
+} from '@/types';
+import { base32ToBytes, base64ToBytes, bytesToBase32 } from '@/utils/crypto';
+import { ERROR_CODES, TIME_SYNC, TOTP_CONFIG } from '@/utils/constants';
 
-// Define algorithm constants for React Native compatibility
-const HashAlgorithms = {
-  SHA1: 'sha1',
-  SHA256: 'sha256',
-  SHA512: 'sha512',
-} as const;
+// Steam Guard renders codes as 5 characters from this alphabet
+const STEAM_ALPHABET = '23456789BCDFGHJKMNPQRTVWXY';
+const STEAM_CODE_LENGTH = 5;
 
-// Define proper algorithm types
-type HashAlgorithm = 'sha1' | 'sha256' | 'sha512';
+// Yandex Key keys are the first 16 bytes of the decoded secret; the rest of
+// the Base32 string is padding and a checksum
+const YANDEX_KEY_LENGTH = 16;
+const YANDEX_ALPHABET_SIZE = 26;
+
+// OCRA challenges are always padded to 128 bytes (RFC 6287 section 5.1)
+const OCRA_CHALLENGE_BYTES = 128;
+const OCRA_TIME_UNITS: Record<string, number> = { S: 1, M: 60, H: 3600 };
+
+/**
+ * Code encoders turn the 31-bit truncated HMAC value into the displayed code
+ */
+const CODE_ENCODERS: Record<
+  CodeEncoder,
+  (binary: number, digits: number) => string
+> = {
+  default: (binary, digits) =>
+    (binary % Math.pow(10, digits)).toString().padStart(digits, '0'),
+  steam: binary => {
+    let code = '';
+    for (let i = 0; i < STEAM_CODE_LENGTH; i++) {
+      code += STEAM_ALPHABET[binary % STEAM_ALPHABET.length];
+      binary = Math.floor(binary / STEAM_ALPHABET.length);
+    }
+    return code;
+  },
+};
 
 /**
  * TOTP Service for generating and validating Time-based One-Time Passwords
@@ -20,22 +61,10 @@ type HashAlgorithm = 'sha1' | 'sha256' | 'sha512';
 export class TOTPService {
   private static instance: TOTPService;
 
-  private readonly defaultOptions = {
-    period: 30,
-    digits: 6 as const,
-    step: 30,
-    algorithm: HashAlgorithms.SHA1,
-    window: 1,
-  };
-
-  private constructor() {
-    // Configure default settings for otplib
-    authenticator.options = {
-      digits: this.defaultOptions.digits,
-      step: this.defaultOptions.step,
-      algorithm: this.defaultOptions.algorithm,
-    };
-  }
+  private clock: Clock = () => Date.now();
+  private timeOffsetMs = 0;
+
+  private constructor() {}
 
   /**
    * Get singleton instance of TOTPService
@@ -47,42 +76,411 @@ export class TOTPService {
     return TOTPService.instance;
   }
 
+  /**
+   * Replace the clock used for "now" (milliseconds since the epoch)
+   * Every time-based method reads the time through this clock only
+   */
+  public setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Correct the clock by a measured drift (see TimeSyncService)
+   */
+  public setTimeOffset(offsetMs: number): void {
+    this.timeOffsetMs = offsetMs;
+  }
+
+  /**
+   * Current time in milliseconds: the injected clock plus the drift offset
+   * and, for accounts on servers with skewed clocks, the account offset
+   */
+  public now(timeOffsetSeconds: number = 0): number {
+    return this.clock() + this.timeOffsetMs + timeOffsetSeconds * 1000;
+  }
+
+  /**
+   * Generate the TOTP code (RFC 6238) for an arbitrary timestamp
+   * Pure: the result depends only on the arguments, never on shared state
+   */
+  public generateAt(
+    secret: string,
+    options: TOTPOptions | undefined,
+    timestampMs: number
+  ): string {
+    try {
+      if (!Number.isFinite(timestampMs) || timestampMs < 0) {
+        throw new Error('Timestamp must be a non-negative number');
+      }
+
+      const period = options?.period || 30;
+      return this.computeHOTP(
+        base32ToBytes(this.validateAndCleanSecret(secret)),
+        Math.floor(timestampMs / 1000 / period),
+        options?.algorithm,
+        options?.digits || 6,
+        options?.encoder
+      );
+    } catch (error) {
+      console.error('TOTP generation failed:', error);
+      throw new Error(
+        `Failed to generate TOTP: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Generate TOTP code for a given secret
    */
   public generateTOTP(secret: string, options?: TOTPOptions): string {
+    return this.generateAt(
+      secret,
+      options,
+      this.now(options?.timeOffsetSeconds)
+    );
+  }
+
+  /**
+   * Generate an HOTP code (RFC 4226) for the given counter
+   */
+  public generateHOTP(
+    secret: string,
+    counter: number,
+    options?: Pick<TOTPOptions, 'algorithm' | 'digits' | 'encoder'>
+  ): string {
     try {
-      // Validate and clean the secret
-      const cleanSecret = this.validateAndCleanSecret(secret);
-
-      // Map algorithm to otplib format
-      const algorithm = this.mapAlgorithm(options?.algorithm);
-
-      // Configure TOTP options
-      const totpOptions = {
-        digits: options?.digits || 6,
-        step: options?.period || 30,
-        algorithm,
-        window: options?.window || 1,
-      };
+      if (!Number.isSafeInteger(counter) || counter < 0) {
+        throw new Error('Counter must be a non-negative integer');
+      }
 
-      // Set options for this generation
-      totp.options = totpOptions;
+      const key = base32ToBytes(this.validateAndCleanSecret(secret));
+      return this.computeHOTP(
+        key,
+        counter,
+        options?.algorithm,
+        options?.digits || 6,
+        options?.encoder
+      );
+    } catch (error) {
+      console.error('HOTP generation failed:', error);
+      throw new Error(
+        `Failed to generate HOTP: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-      // Generate the TOTP code
-      const code = totp.generate(cleanSecret);
+  /**
+   * Generate a Yandex Key code
+   * HMAC-SHA256 keyed with SHA-256(PIN + secret), truncated to 63 bits and
+   * written in lowercase letters
+   */
+  public generateYandexOTP(
+    secret: string,
+    pin: string,
+    options?: Pick<TOTPOptions, 'period'> & { digits?: number },
+    timestampMs: number = this.now()
+  ): string {
+    try {
+      const digits = options?.digits || 8;
+      const period = options?.period || 30;
+      const secretBytes = base32ToBytes(
+        this.validateAndCleanSecret(secret)
+      ).slice(0, YANDEX_KEY_LENGTH);
+      if (secretBytes.length < YANDEX_KEY_LENGTH) {
+        throw new Error('Yandex Key secret is too short');
+      }
+
+      const pinBytes = utf8ToBytes(this.validateAndCleanPin(pin));
+      const keyMaterial = new Uint8Array(pinBytes.length + secretBytes.length);
+      keyMaterial.set(pinBytes);
+      keyMaterial.set(secretBytes, pinBytes.length);
+
+      // A leading zero byte of the key hash is dropped, as Yandex does
+      let key = sha256(keyMaterial);
+      if (key[0] === 0) {
+        key = key.slice(1);
+      }
 
-      return code;
+      const digest = hmac(
+        sha256,
+        key,
+        this.uint64(Math.floor(timestampMs / 1000 / period))
+      );
+      const offset = digest[digest.length - 1] & 0x0f;
+      digest[offset] &= 0x7f;
+
+      // 26^8 exceeds 2^32, so the base conversion runs on BigInt
+      const base = BigInt(YANDEX_ALPHABET_SIZE);
+      let value = new DataView(digest.buffer, digest.byteOffset).getBigUint64(
+        offset
+      );
+      const chars: string[] = [];
+      for (let i = 0; i < digits; i++) {
+        chars.unshift(String.fromCharCode(97 + Number(value % base)));
+        value /= base;
+      }
+      return chars.join('');
     } catch (error) {
-      console.error('TOTP generation failed:', error);
+      console.error('Yandex Key generation failed:', error);
       throw new Error(
-        `Failed to generate TOTP: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to generate Yandex Key code: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
+  /**
+   * Generate a Mobile-OTP (mOTP) code
+   * The first digits of MD5(epoch / 10 + secret + PIN) in hexadecimal
+   */
+  public generateMOTP(
+    secret: string,
+    pin: string,
+    options?: Pick<TOTPOptions, 'period'> & { digits?: number },
+    timestampMs: number = this.now()
+  ): string {
+    try {
+      const cleanSecret = secret.replace(/\s/g, '').toLowerCase();
+      if (!this.validateSecret(cleanSecret, 'motp')) {
+        throw new Error(
+          'mOTP secret must be at least 16 hexadecimal characters'
+        );
+      }
+
+      const digits = options?.digits || 6;
+      const period = options?.period || 10;
+      const epoch = Math.floor(timestampMs / 1000 / period);
+      const input = `${epoch}${cleanSecret}${this.validateAndCleanPin(pin)}`;
+      return bytesToHex(md5(utf8ToBytes(input))).substring(0, digits);
+    } catch (error) {
+      console.error('mOTP generation failed:', error);
+      throw new Error(
+        `Failed to generate mOTP: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Parse an OCRA suite string such as OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1
+   */
+  public parseOCRASuite(suite: string): OCRASuite {
+    const fail = (reason: string): never => {
+      throw new Error(`Invalid OCRA suite: ${reason}`);
+    };
+
+    const [version, cryptoFunction, dataInput, ...rest] = suite
+      .trim()
+      .split(':');
+    if (version !== 'OCRA-1' || !cryptoFunction || !dataInput || rest.length) {
+      fail('expected OCRA-1:<crypto function>:<data input>');
+    }
+
+    const crypto = /^HOTP-(SHA1|SHA256|SHA512)-(\d+)$/.exec(cryptoFunction);
+    const digits = crypto ? parseInt(crypto[2], 10) : 0;
+    if (!crypto || digits < 4 || digits > 10) {
+      fail('crypto function must be HOTP-SHA1/256/512 with 4 to 10 digits');
+    }
+
+    const parsed: Partial<OCRASuite> = {
+      suite: suite.trim(),
+      algorithm: crypto![1] as OCRASuite['algorithm'],
+      digits,
+      counter: false,
+    };
+
+    dataInput.split('-').forEach((part, index) => {
+      let match: RegExpExecArray | null;
+      if (part === 'C' && index === 0) {
+        parsed.counter = true;
+      } else if ((match = /^Q([ANH])(\d{2})$/.exec(part))) {
+        const maxLength = parseInt(match[2], 10);
+        if (parsed.challengeFormat || maxLength < 4 || maxLength > 64) {
+          fail(`bad challenge parameter ${part}`);
+        }
+        parsed.challengeFormat = match[1] as OCRASuite['challengeFormat'];
+        parsed.challengeMaxLength = maxLength;
+      } else if ((match = /^P(SHA1|SHA256|SHA512)$/.exec(part))) {
+        parsed.pinHash = match[1] as OCRASuite['pinHash'];
+      } else if ((match = /^S(\d{3})$/.exec(part))) {
+        parsed.sessionLength = parseInt(match[1], 10);
+      } else if ((match = /^T(\d{1,2})([SMH])$/.exec(part))) {
+        parsed.timeStep = parseInt(match[1], 10) * OCRA_TIME_UNITS[match[2]];
+      } else {
+        fail(`unsupported data input ${part}`);
+      }
+    });
+
+    if (!parsed.challengeFormat) {
+      fail('a challenge (Q) parameter is required');
+    }
+
+    return parsed as OCRASuite;
+  }
+
+  /**
+   * Compute an OCRA response (RFC 6287) for a user-entered challenge
+   * The HMAC message is the suite, a zero byte and each data input the
+   * suite names, in order: counter, challenge, PIN hash, session, time.
+   */
+  public generateOCRA(
+    secret: string,
+    suiteString: string,
+    inputs: OCRAInputs
+  ): string {
+    try {
+      const suite = this.parseOCRASuite(suiteString);
+      const parts: Uint8Array[] = [utf8ToBytes(suite.suite), new Uint8Array(1)];
+
+      if (suite.counter) {
+        const counter = inputs.counter;
+        if (
+          counter === undefined ||
+          !Number.isSafeInteger(counter) ||
+          counter < 0
+        ) {
+          throw new Error('This suite needs a non-negative counter');
+        }
+        parts.push(this.uint64(counter));
+      }
+
+      parts.push(this.encodeOCRAChallenge(suite, inputs.challenge));
+
+      if (suite.pinHash) {
+        if (!inputs.pin) {
+          throw new Error('This suite needs a PIN');
+        }
+        parts.push(
+          this.getHashFunction(suite.pinHash)(utf8ToBytes(inputs.pin))
+        );
+      }
+
+      if (suite.sessionLength) {
+        const session = (inputs.session || '').replace(/\s/g, '');
+        if (
+          !/^[0-9a-f]*$/i.test(session) ||
+          session.length > suite.sessionLength * 2
+        ) {
+          throw new Error(
+            `Session information must be up to ${suite.sessionLength} hex bytes`
+          );
+        }
+        parts.push(hexToBytes(session.padStart(suite.sessionLength * 2, '0')));
+      }
+
+      if (suite.timeStep) {
+        const timestampMs = inputs.timestampMs ?? this.now();
+        parts.push(
+          this.uint64(Math.floor(timestampMs / 1000 / suite.timeStep))
+        );
+      }
+
+      const message = new Uint8Array(
+        parts.reduce((length, part) => length + part.length, 0)
+      );
+      parts.reduce((offset, part) => {
+        message.set(part, offset);
+        return offset + part.length;
+      }, 0);
+
+      const key = base32ToBytes(this.validateAndCleanSecret(secret));
+      const digest = hmac(this.getHashFunction(suite.algorithm), key, message);
+      return CODE_ENCODERS.default(this.truncate(digest), suite.digits);
+    } catch (error) {
+      console.error('OCRA generation failed:', error);
+      throw new Error(
+        `Failed to generate OCRA response: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Generate the current code of a time-based account of any supported type
+   */
+  public generateAccountCode(
+    account: Pick<
+      LocalTOTPAccount,
+      | 'secret'
+      | 'pin'
+      | 'type'
+      | 'algorithm'
+      | 'digits'
+      | 'period'
+      | 'encoder'
+      | 'timeOffsetSeconds'
+    >
+  ): string {
+    switch (account.type) {
+      case 'hotp':
+        throw new Error('HOTP codes are generated per counter');
+      case 'ocra':
+        throw new Error('OCRA responses need a challenge');
+      case 'yandex':
+        return this.generateYandexOTP(
+          account.secret,
+          account.pin || '',
+          { digits: account.digits, period: account.period },
+          this.now(account.timeOffsetSeconds)
+        );
+      case 'motp':
+        return this.generateMOTP(
+          account.secret,
+          account.pin || '',
+          { digits: account.digits, period: account.period },
+          this.now(account.timeOffsetSeconds)
+        );
+      default:
+        return this.generateTOTP(account.secret, {
+          algorithm: account.algorithm as TOTPOptions['algorithm'],
+          digits: account.digits as TOTPOptions['digits'],
+          period: account.period,
+          encoder: account.encoder,
+          timeOffsetSeconds: account.timeOffsetSeconds,
+        });
+    }
+  }
+
+  /**
+   * Find the counter of a token that has moved ahead of the stored counter
+   * Searches `window` counters from `fromCounter` for two consecutive codes
+   * and returns the next counter to use, or null when they are not found.
+   * Requiring two codes keeps a single chance match from moving the counter.
+   */
+  public resyncHOTP(
+    secret: string,
+    firstCode: string,
+    secondCode: string,
+    fromCounter: number,
+    options?: Pick<TOTPOptions, 'algorithm' | 'digits'> & { window?: number }
+  ): number | null {
+    if (!Number.isSafeInteger(fromCounter) || fromCounter < 0) {
+      throw new Error('Counter must be a non-negative integer');
+    }
+
+    const first = firstCode.replace(/\s/g, '');
+    const second = secondCode.replace(/\s/g, '');
+    const digits = options?.digits || 6;
+    const pattern = new RegExp(`^\\d{${digits}}$`);
+    if (!pattern.test(first) || !pattern.test(second)) {
+      throw new Error(`Codes must be ${digits} digits`);
+    }
+
+    const key = base32ToBytes(this.validateAndCleanSecret(secret));
+    const window = options?.window ?? TOTP_CONFIG.HOTP_RESYNC_WINDOW;
+    let next = this.computeHOTP(key, fromCounter, options?.algorithm, digits);
+
+    for (let counter = fromCounter; counter < fromCounter + window; counter++) {
+      const current = next;
+      next = this.computeHOTP(key, counter + 1, options?.algorithm, digits);
+      if (current === first && next === second) {
+        return counter + 2;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Validate a TOTP code against a secret
+   * Accepts codes up to `window` periods before or after the current one
    */
   public validateTOTP(
     code: string,
@@ -90,19 +488,20 @@ export class TOTPService {
     options?: TOTPOptions & { window?: number }
   ): boolean {
     try {
-      const cleanSecret = this.validateAndCleanSecret(secret);
-      const algorithm = this.mapAlgorithm(options?.algorithm);
-
-      const totpOptions = {
-        digits: options?.digits || 6,
-        step: options?.period || 30,
-        algorithm,
-        window: options?.window || 1,
-      };
+      const period = options?.period || 30;
+      const window = options?.window ?? 1;
+      const now = this.now(options?.timeOffsetSeconds);
 
-      totp.options = totpOptions;
-
-      return totp.check(code, cleanSecret);
+      for (let step = -window; step <= window; step++) {
+        const timestampMs = now + step * period * 1000;
+        if (
+          timestampMs >= 0 &&
+          this.generateAt(secret, options, timestampMs) === code
+        ) {
+          return true;
+        }
+      }
+      return false;
     } catch (error) {
       console.error('TOTP validation failed:', error);
       return false;
@@ -110,17 +509,183 @@ export class TOTPService {
   }
 
   /**
-   * Validate and clean a Base32 secret
+   * Suggest an account time offset from a code the server accepted
+   * Searches whole periods either side of the device time and returns the
+   * offset in seconds closest to zero whose code matches, or null
+   */
+  public suggestTimeOffset(
+    code: string,
+    secret: string,
+    options?: Omit<TOTPOptions, 'timeOffsetSeconds' | 'window'> & {
+      maxOffsetSeconds?: number;
+    }
+  ): number | null {
+    const cleanCode = code.replace(/\s/g, '');
+    const period = options?.period || 30;
+    const maxSteps = Math.floor(
+      (options?.maxOffsetSeconds ?? TOTP_CONFIG.MAX_TIME_OFFSET) / period
+    );
+    const now = this.now();
+
+    for (let distance = 0; distance <= maxSteps; distance++) {
+      for (const step of distance === 0 ? [0] : [-distance, distance]) {
+        const timestampMs = now + step * period * 1000;
+        if (
+          timestampMs >= 0 &&
+          this.generateAt(secret, options, timestampMs) === cleanCode
+        ) {
+          return step * period;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the parameters that produce codes read from another authenticator
+   * Tries every supported algorithm and digit count with the common periods.
+   * A second code must be the one that followed the first. Returns every
+   * match: one means the parameters are known, several mean more codes are
+   * needed and none means the secret or codes are wrong.
+   */
+  public detectTOTPParameters(
+    secret: string,
+    codes: string[],
+    options?: { window?: number }
+  ): TOTPParameters[] {
+    const [first, second] = codes.map(code => code.replace(/\s/g, ''));
+    if (codes.length < 1 || codes.length > 2) {
+      throw new Error('Enter one or two codes');
+    }
+    if (
+      !/^\d+$/.test(first) ||
+      (second !== undefined && !/^\d+$/.test(second))
+    ) {
+      throw new Error('Codes must contain digits only');
+    }
+
+    const key = base32ToBytes(this.validateAndCleanSecret(secret));
+    const window = options?.window ?? TOTP_CONFIG.DETECTION_WINDOW;
+    const now = this.now();
+    const matches: TOTPParameters[] = [];
+
+    for (const algorithm of TOTP_CONFIG.SUPPORTED_ALGORITHMS) {
+      for (const digits of TOTP_CONFIG.SUPPORTED_DIGITS) {
+        if (first.length !== digits) continue;
+
+        for (const period of TOTP_CONFIG.DETECTION_PERIODS) {
+          const currentSlot = Math.floor(now / 1000 / period);
+          for (
+            let slot = Math.max(0, currentSlot - window);
+            slot <= currentSlot + window;
+            slot++
+          ) {
+            if (
+              this.computeHOTP(key, slot, algorithm, digits) === first &&
+              (second === undefined ||
+                this.computeHOTP(key, slot + 1, algorithm, digits) === second)
+            ) {
+              matches.push({ algorithm, digits, period });
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decode a secret typed or pasted in Base32, hex or Base64 and re-encode
+   * it as canonical Base32
+   * With 'auto', uniform-case Base32 wins unless the text has characters
+   * Base32 cannot contain, then hex, then Base64. Whitespace is ignored.
+   */
+  public normalizeSecret(
+    input: string,
+    encoding: SecretEncoding | 'auto' = 'auto'
+  ): ApiResponse<NormalizedSecret> {
+    const reject = (message: string): ApiResponse<NormalizedSecret> => ({
+      success: false,
+      error: ERROR_CODES.INVALID_SECRET,
+      message,
+    });
+
+    const cleaned = (input || '').replace(/\s/g, '');
+    if (!cleaned) {
+      return reject('Secret key is empty');
+    }
+
+    const detected =
+      encoding === 'auto' ? this.detectSecretEncoding(cleaned) : encoding;
+    if (!detected) {
+      return reject('Secret key is not valid Base32, hex or Base64');
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = this.decodeSecret(cleaned, detected);
+    } catch (error) {
+      return reject(
+        error instanceof Error ? error.message : 'Secret key could not be read'
+      );
+    }
+
+    const bits = bytes.length * 8;
+    if (bits < TOTP_CONFIG.MIN_SECRET_BITS) {
+      return reject(
+        `Secret key is too short: ${bits} bits, at least ${TOTP_CONFIG.MIN_SECRET_BITS} required`
+      );
+    }
+    if (bytes.every(byte => byte === bytes[0])) {
+      return reject('Secret key repeats a single value and is not random');
+    }
+
+    return {
+      success: true,
+      data: {
+        secret: bytesToBase32(bytes),
+        encoding: detected,
+        bits,
+        isWeak: bits < TOTP_CONFIG.RECOMMENDED_SECRET_BITS,
+      },
+    };
+  }
+
+  /**
+   * Validate and clean a secret for the given account type
+   * mOTP secrets are hexadecimal; every other type uses Base32
    */
-  public validateSecret(secret: string): boolean {
+  public validateSecret(secret: string, type: OTPType = 'totp'): boolean {
     try {
+      if (type === 'motp') {
+        return /^[0-9a-f]{16,}$/i.test(secret.replace(/\s/g, ''));
+      }
+
       const cleaned = this.validateAndCleanSecret(secret);
+      if (type === 'yandex') {
+        return base32ToBytes(cleaned).length >= YANDEX_KEY_LENGTH;
+      }
       return cleaned.length > 0;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Check that a Yandex Key or mOTP PIN is 4 to 16 digits
+   */
+  public validatePin(pin: string): boolean {
+    try {
+      this.validateAndCleanPin(pin);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Parse an OTPAuth URL into account details
    * Supports formats: otpauth://totp/Example:alice@google.com?secret=JBSWY3DPEHPK3PXP&issuer=Example
@@ -177,12 +742,19 @@ export class TOTPService {
         period: parseInt(params.get('period') || '30', 10),
       };
 
-      // Add counter for HOTP
+      // Steam Guard URIs are ordinary TOTP URIs flagged by encoder or issuer
+      if (
+        params.get('encoder')?.toLowerCase() === 'steam' ||
+        issuer.toLowerCase() === 'steam'
+      ) {
+        result.encoder = 'steam';
+      }
+
+      // Add counter for HOTP (starts at 0 when the URL omits it)
       if (type === 'hotp') {
-        const counter = params.get('counter');
-        if (counter) {
-          result.counter = parseInt(counter, 10);
-        }
+        const counter = parseInt(params.get('counter') || '0', 10);
+        result.counter =
+          Number.isSafeInteger(counter) && counter >= 0 ? counter : 0;
       }
 
       // Validate parsed values
@@ -210,15 +782,21 @@ export class TOTPService {
   /**
    * Get the current time slot for TOTP
    */
-  public getCurrentTimeSlot(period: number = 30): number {
-    return Math.floor(Date.now() / 1000 / period);
+  public getCurrentTimeSlot(
+    period: number = 30,
+    timeOffsetSeconds: number = 0
+  ): number {
+    return Math.floor(this.now(timeOffsetSeconds) / 1000 / period);
   }
 
   /**
    * Get remaining time in current TOTP period
    */
-  public getTimeRemaining(period: number = 30): number {
-    const now = Math.floor(Date.now() / 1000);
+  public getTimeRemaining(
+    period: number = 30,
+    timeOffsetSeconds: number = 0
+  ): number {
+    const now = Math.floor(this.now(timeOffsetSeconds) / 1000);
     const currentSlot = Math.floor(now / period);
     const nextSlotStart = (currentSlot + 1) * period;
     return nextSlotStart - now;
@@ -234,27 +812,21 @@ export class TOTPService {
   ): Array<{ code: string; timeSlot: number; validFrom: Date; validTo: Date }> {
     const results = [];
     const period = options?.period || 30;
-    const currentTimeSlot = this.getCurrentTimeSlot(period);
+    const currentTimeSlot = this.getCurrentTimeSlot(
+      period,
+      options?.timeOffsetSeconds
+    );
 
     for (let i = -Math.floor(periods / 2); i <= Math.floor(periods / 2); i++) {
       const timeSlot = currentTimeSlot + i;
       const timestamp = timeSlot * period;
 
-      // Temporarily set time for generation
-      const originalNow = Date.now;
-      Date.now = () => timestamp * 1000;
-
-      try {
-        const code = this.generateTOTP(secret, options);
-        results.push({
-          code,
-          timeSlot,
-          validFrom: new Date(timestamp * 1000),
-          validTo: new Date((timestamp + period) * 1000),
-        });
-      } finally {
-        Date.now = originalNow;
-      }
+      results.push({
+        code: this.generateAt(secret, options, timestamp * 1000),
+        timeSlot,
+        validFrom: new Date(timestamp * 1000),
+        validTo: new Date((timestamp + period) * 1000),
+      });
     }
 
     return results;
@@ -287,10 +859,63 @@ export class TOTPService {
       digits: (options?.digits || 6).toString(),
       period: (options?.period || 30).toString(),
     });
+    if (options?.encoder && options.encoder !== 'default') {
+      params.set('encoder', options.encoder);
+    }
 
     return `otpauth://totp/${encodeURIComponent(label)}?${params.toString()}`;
   }
 
+  /**
+   * Guess the encoding of a whitespace-free secret, or null if none fits
+   */
+  private detectSecretEncoding(secret: string): SecretEncoding | null {
+    const uniformCase =
+      secret === secret.toUpperCase() || secret === secret.toLowerCase();
+    if (
+      uniformCase &&
+      /^[A-Z2-7]+=*$/i.test(secret) &&
+      !/[0189]/.test(secret)
+    ) {
+      return 'base32';
+    }
+    if (/^(0x)?[0-9a-f]+$/i.test(secret)) {
+      return 'hex';
+    }
+    if (/^[A-Za-z0-9+/_-]+=*$/.test(secret)) {
+      return 'base64';
+    }
+    return null;
+  }
+
+  /**
+   * Decode a whitespace-free secret in the given encoding
+   */
+  private decodeSecret(secret: string, encoding: SecretEncoding): Uint8Array {
+    switch (encoding) {
+      case 'hex': {
+        const hex = secret.replace(/^0x/i, '');
+        if (!/^[0-9a-f]*$/i.test(hex) || hex.length % 2 !== 0) {
+          throw new Error('Hex secret must be an even number of 0-9 and A-F');
+        }
+        return hexToBytes(hex.toLowerCase());
+      }
+      case 'base64': {
+        // Accept the URL-safe alphabet and missing padding
+        const base64 = secret.replace(/-/g, '+').replace(/_/g, '/');
+        const unpadded = base64.replace(/=+$/, '');
+        if (!/^[A-Za-z0-9+/]*$/.test(unpadded) || unpadded.length % 4 === 1) {
+          throw new Error('Secret key is not valid Base64');
+        }
+        return base64ToBytes(
+          unpadded.padEnd(Math.ceil(unpadded.length / 4) * 4, '=')
+        );
+      }
+      default:
+        return base32ToBytes(this.validateAndCleanSecret(secret));
+    }
+  }
+
   /**
    * Private method to validate and clean Base32 secrets
    */
@@ -319,38 +944,117 @@ export class TOTPService {
   }
 
   /**
-   * Get time synchronization offset (for future NTP sync implementation)
+   * Encode an OCRA challenge and right-pad it with zeros to 128 bytes
+   * Numeric challenges are converted to hexadecimal first, as in the RFC
+   */
+  private encodeOCRAChallenge(suite: OCRASuite, challenge: string): Uint8Array {
+    const value = challenge.replace(/\s/g, '');
+    const pattern = { N: /^\d+$/, A: /^[\x21-\x7e]+$/, H: /^[0-9a-f]+$/i }[
+      suite.challengeFormat
+    ];
+    if (
+      !pattern.test(value) ||
+      value.length < 4 ||
+      value.length > suite.challengeMaxLength
+    ) {
+      throw new Error(
+        `Challenge must be 4 to ${suite.challengeMaxLength} characters`
+      );
+    }
+
+    let hex: string;
+    switch (suite.challengeFormat) {
+      case 'N':
+        hex = BigInt(value).toString(16);
+        break;
+      case 'A':
+        hex = bytesToHex(utf8ToBytes(value));
+        break;
+      default:
+        hex = value;
+    }
+    return hexToBytes(hex.padEnd(OCRA_CHALLENGE_BYTES * 2, '0'));
+  }
+
+  /**
+   * Encode a non-negative integer as 8 big-endian bytes
+   * Split into two words so values above 2^32 stay exact
+   */
+  private uint64(value: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, Math.floor(value / 0x100000000));
+    view.setUint32(4, value >>> 0);
+    return bytes;
+  }
+
+  /**
+   * Private method to validate and clean a numeric PIN
+   */
+  private validateAndCleanPin(pin: string): string {
+    const cleaned = (pin || '').replace(/\s/g, '');
+    if (!/^\d{4,16}$/.test(cleaned)) {
+      throw new Error('PIN must be 4 to 16 digits');
+    }
+    return cleaned;
+  }
+
+  /**
+   * Get the drift offset applied to the device clock, in milliseconds
    */
   public getTimeSyncOffset(): number {
-    // For now, return 0. In a full implementation, this would
-    // calculate offset from NTP servers for accurate time sync
-    return 0;
+    return this.timeOffsetMs;
   }
 
   /**
-   * Check if current time is synchronized (for future implementation)
+   * Check if the device clock is within the drift warning threshold
    */
   public isTimeSynchronized(): boolean {
-    // For now, assume time is synchronized
-    // In a full implementation, this would check against NTP servers
-    return true;
+    return Math.abs(this.timeOffsetMs) <= TIME_SYNC.DRIFT_WARNING_THRESHOLD;
+  }
+
+  /**
+   * HMAC-based one-time password with dynamic truncation (RFC 4226 section 5.3)
+   */
+  private computeHOTP(
+    key: Uint8Array,
+    counter: number,
+    algorithm: TOTPOptions['algorithm'],
+    digits: number,
+    encoder: CodeEncoder = 'default'
+  ): string {
+    const digest = hmac(
+      this.getHashFunction(algorithm),
+      key,
+      this.uint64(counter)
+    );
+    return CODE_ENCODERS[encoder](this.truncate(digest), digits);
+  }
+
+  /**
+   * Dynamic truncation of an HMAC digest to a 31-bit value (RFC 4226 5.3)
+   */
+  private truncate(digest: Uint8Array): number {
+    const offset = digest[digest.length - 1] & 0x0f;
+    return (
+      ((digest[offset] & 0x7f) << 24) |
+      (digest[offset + 1] << 16) |
+      (digest[offset + 2] << 8) |
+      digest[offset + 3]
+    );
   }
 
   /**
-   * Map our algorithm enum to otplib's expected format
+   * Get the hash function for an HMAC algorithm name
    */
-  private mapAlgorithm(
-    algorithm?: 'SHA1' | 'SHA256' | 'SHA512'
-  ): typeof HashAlgorithms[keyof typeof HashAlgorithms] {
+  private getHashFunction(algorithm: TOTPOptions['algorithm']) {
     switch (algorithm) {
-      case 'SHA1':
-        return HashAlgorithms.SHA1;
       case 'SHA256':
-        return HashAlgorithms.SHA256;
+        return sha256;
       case 'SHA512':
-        return HashAlgorithms.SHA512;
+        return sha512;
       default:
-        return HashAlgorithms.SHA1;
+        return sha1;
     }
   }
 }
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ClockSample, TimeSyncState } from '@/types';
+import { STORAGE_KEYS, TIME_SYNC } from '@/utils/constants';
+import { withTimeout } from '@/utils/helpers';
+import { TOTPService } from './TOTPService';
+
+export type ClockProbe = () => Promise<ClockSample>;
+
+/**
+ * Offset between a trusted clock and the device clock
+ * The server time is assumed to fall halfway through the round trip
+ */
+export const computeClockOffset = (
+  sample: ClockSample,
+  source: TimeSyncState['source']
+): TimeSyncState => ({
+  offsetMs: Math.round(
+    sample.serverTimeMs - (sample.sentAt + sample.receivedAt) / 2
+  ),
+  roundTripMs: sample.receivedAt - sample.sentAt,
+  measuredAt: sample.receivedAt,
+  source,
+});
+
+/**
+ * Measures device clock drift against a trusted time source
+ * The offset is persisted and applied to TOTPService, so every code and
+ * countdown uses corrected time even when the phone clock is wrong
+ */
+export class TimeSyncService {
+  private static instance: TimeSyncService;
+  private state: TimeSyncState | null = null;
+  // Device and monotonic time of the last measurement in this run, used to
+  // notice the device clock being changed after it was measured
+  private reference: { wallMs: number; monotonicMs: number } | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TimeSyncService {
+    if (!TimeSyncService.instance) {
+      TimeSyncService.instance = new TimeSyncService();
+    }
+    return TimeSyncService.instance;
+  }
+
+  /**
+   * Last measurement, or null if the clock was never measured
+   */
+  public getState(): TimeSyncState | null {
+    return this.state;
+  }
+
+  /**
+   * Whether the device clock is off by more than the warning threshold
+   */
+  public isDrifted(): boolean {
+    return (
+      !!this.state &&
+      Math.abs(this.state.offsetMs) > TIME_SYNC.DRIFT_WARNING_THRESHOLD
+    );
+  }
+
+  /**
+   * Load and apply the persisted offset (e.g. at startup, before measuring)
+   */
+  public async load(): Promise<TimeSyncState | null> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.TIME_SYNC);
+      if (stored) {
+        this.apply(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('Failed to load time offset:', error);
+    }
+    return this.state;
+  }
+
+  /**
+   * Measure the offset now, persist it and apply it
+   * Uses the Firestore probe when one is given and falls back to the HTTP
+   * Date header of the configured endpoint
+   */
+  public async measure(firestoreProbe?: ClockProbe): Promise<TimeSyncState> {
+    let state: TimeSyncState | null = null;
+
+    if (firestoreProbe) {
+      try {
+        state = computeClockOffset(await firestoreProbe(), 'firestore');
+      } catch (error) {
+        console.warn('Firestore clock probe failed, trying HTTP:', error);
+      }
+    }
+
+    if (!state) {
+      state = computeClockOffset(await this.probeHttpDate(), 'http');
+    }
+
+    this.apply(state);
+    this.reference = { wallMs: Date.now(), monotonicMs: performance.now() };
+    await AsyncStorage.setItem(STORAGE_KEYS.TIME_SYNC, JSON.stringify(state));
+    return state;
+  }
+
+  /**
+   * Measure again unless this run measured within the refresh interval and
+   * the device clock has not been changed since; failures keep the previous
+   * offset, except after a clock change, which makes it meaningless
+   */
+  public async refresh(
+    firestoreProbe?: ClockProbe
+  ): Promise<TimeSyncState | null> {
+    if (this.hasClockJumped()) {
+      // e.g. the user just fixed the clock the offset was correcting
+      await this.clear();
+    } else if (
+      this.reference &&
+      this.state &&
+      Math.abs(Date.now() - this.state.measuredAt) < TIME_SYNC.REFRESH_INTERVAL
+    ) {
+      return this.state;
+    }
+
+    try {
+      return await this.measure(firestoreProbe);
+    } catch (error) {
+      console.error('Failed to measure clock drift:', error);
+      return this.state;
+    }
+  }
+
+  /**
+   * Forget the measured offset (e.g. on sign-out)
+   */
+  public async clear(): Promise<void> {
+    this.state = null;
+    this.reference = null;
+    TOTPService.getInstance().setTimeOffset(0);
+    await AsyncStorage.removeItem(STORAGE_KEYS.TIME_SYNC);
+  }
+
+  /**
+   * Read the Date header of the configured endpoint
+   * The header has one-second resolution, so the middle of that second is used
+   */
+  private async probeHttpDate(): Promise<ClockSample> {
+    const endpoint =
+      process.env.EXPO_PUBLIC_TIME_SYNC_URL || TIME_SYNC.DEFAULT_ENDPOINT;
+
+    const sentAt = Date.now();
+    const response = await withTimeout(
+      fetch(endpoint, { method: 'HEAD', cache: 'no-store' }),
+      TIME_SYNC.REQUEST_TIMEOUT
+    );
+    const receivedAt = Date.now();
+
+    const serverTime = Date.parse(response.headers.get('date') || '');
+    if (isNaN(serverTime)) {
+      throw new Error(`No usable Date header from ${endpoint}`);
+    }
+
+    return { serverTimeMs: serverTime + 500, sentAt, receivedAt };
+  }
+
+  /**
+   * Whether the device clock moved differently from the monotonic clock since
+   * the last measurement, i.e. it was set to another time
+   */
+  private hasClockJumped(): boolean {
+    if (!this.reference) {
+      return false;
+    }
+    const wallElapsed = Date.now() - this.reference.wallMs;
+    const monotonicElapsed = performance.now() - this.reference.monotonicMs;
+    return (
+      Math.abs(wallElapsed - monotonicElapsed) > TIME_SYNC.CLOCK_JUMP_THRESHOLD
+    );
+  }
+
+  /**
+   * Remember a measurement and make TOTPService use it
+   */
+  private apply(state: TimeSyncState): void {
+    this.state = state;
+    TOTPService.getInstance().setTimeOffset(state.offsetMs);
+  }
+}
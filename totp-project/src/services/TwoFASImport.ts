@@ -0,0 +1,167 @@
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { base64ToBytes } from '@/utils/crypto';
+import { TOTP_CONFIG } from '@/utils/constants';
+import { AccountInput } from './AccountRepository';
+import { ImportBatch } from './AccountImport';
+import { TOTPService } from './TOTPService';
+
+// Key derivation used by 2FAS for password protected backups
+const PBKDF2_ITERATIONS = 10000;
+const TWOFAS_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+
+interface TwoFASService {
+  name?: string;
+  secret?: string; // Base32
+  groupId?: string | null;
+  otp?: {
+    label?: string;
+    account?: string;
+    issuer?: string;
+    digits?: number;
+    period?: number;
+    algorithm?: string;
+    counter?: number;
+    tokenType?: string; // TOTP, HOTP or STEAM
+  };
+}
+
+interface TwoFASBackup {
+  schemaVersion?: number;
+  services?: TwoFASService[];
+  servicesEncrypted?: string; // "ciphertext:salt:iv", each Base64
+  groups?: { id: string; name: string }[];
+}
+
+/**
+ * Parse a .2fas file, or throw if it is not a 2FAS backup
+ */
+const parseBackup = (contents: string): TwoFASBackup => {
+  let backup: TwoFASBackup;
+  try {
+    backup = JSON.parse(contents);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (
+    !backup ||
+    typeof backup !== 'object' ||
+    (!Array.isArray(backup.services) &&
+      typeof backup.servicesEncrypted !== 'string')
+  ) {
+    throw new Error('This file is not a 2FAS backup');
+  }
+  return backup;
+};
+
+/**
+ * Decrypt the services list of a password protected backup
+ */
+const decryptServices = async (
+  servicesEncrypted: string,
+  password: string
+): Promise<TwoFASService[]> => {
+  const parts = servicesEncrypted.split(':');
+  if (parts.length !== 3) {
+    throw new Error('This 2FAS backup is damaged');
+  }
+  const [ciphertext, salt, iv] = parts.map(part => base64ToBytes(part));
+
+  const key = await pbkdf2Async(sha256, utf8ToBytes(password), salt, {
+    c: PBKDF2_ITERATIONS,
+    dkLen: 32,
+  });
+  let plaintext: Uint8Array;
+  try {
+    // 2FAS appends the GCM tag to the ciphertext
+    plaintext = gcm(key, iv).decrypt(ciphertext);
+  } catch {
+    throw new Error('Incorrect password');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+/**
+ * Map one 2FAS service onto an account, or a reason it cannot be imported
+ */
+const accountFromService = (
+  service: TwoFASService,
+  groupNames: Map<string, string>
+): { account?: AccountInput; unsupported?: string } => {
+  const otp = service.otp || {};
+  const label = service.name || otp.issuer || otp.account || 'Unnamed entry';
+  const tokenType = (otp.tokenType || 'TOTP').toUpperCase();
+  const algorithm = (otp.algorithm || 'SHA1').toUpperCase();
+
+  if (!service.secret) {
+    return { unsupported: `${label}: missing secret` };
+  }
+  if (!['TOTP', 'HOTP', 'STEAM'].includes(tokenType)) {
+    return { unsupported: `${label}: ${tokenType} entries are not supported` };
+  }
+  if (!TWOFAS_ALGORITHMS.includes(algorithm)) {
+    return { unsupported: `${label}: ${algorithm} is not supported` };
+  }
+  if (!TOTPService.getInstance().validateSecret(service.secret)) {
+    return { unsupported: `${label}: secret is not valid Base32` };
+  }
+
+  const group = service.groupId ? groupNames.get(service.groupId) : undefined;
+  const account: AccountInput = {
+    serviceName: service.name || otp.issuer || 'Unknown Service',
+    accountName: otp.account || otp.label || '',
+    secret: service.secret.replace(/\s/g, '').toUpperCase(),
+    algorithm,
+    digits: otp.digits || TOTP_CONFIG.DEFAULT_DIGITS,
+    period: otp.period || TOTP_CONFIG.DEFAULT_PERIOD,
+    type: tokenType === 'HOTP' ? 'hotp' : 'totp',
+    group,
+  };
+
+  if (tokenType === 'HOTP') {
+    account.counter = otp.counter ?? 0;
+  } else if (tokenType === 'STEAM') {
+    account.encoder = 'steam';
+    account.digits = TOTP_CONFIG.DEFAULT_DIGITS;
+  }
+
+  return { account };
+};
+
+/**
+ * Whether a 2FAS backup needs a password
+ */
+export const isEncrypted2FASBackup = (contents: string): boolean =>
+  typeof parseBackup(contents).servicesEncrypted === 'string';
+
+/**
+ * Read the accounts of a plain or password protected 2FAS backup
+ * Encrypted backups use PBKDF2-SHA256 and AES-256-GCM over the services list.
+ */
+export const import2FASBackup = async (
+  contents: string,
+  password?: string
+): Promise<ImportBatch> => {
+  const backup = parseBackup(contents);
+  let services = backup.services || [];
+
+  if (typeof backup.servicesEncrypted === 'string') {
+    if (!password) {
+      throw new Error('This backup is encrypted; enter its password');
+    }
+    services = await decryptServices(backup.servicesEncrypted, password);
+  }
+
+  const groupNames = new Map(
+    (backup.groups || []).map(group => [group.id, group.name])
+  );
+  const batch: ImportBatch = { accounts: [], unsupported: [] };
+  for (const service of services) {
+    const { account, unsupported } = accountFromService(service, groupNames);
+    if (account) batch.accounts.push(account);
+    if (unsupported) batch.unsupported.push(unsupported);
+  }
+  return batch;
+};
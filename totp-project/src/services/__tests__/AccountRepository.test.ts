@@ -0,0 +1,184 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AccountRepository, AccountInput } from '../AccountRepository';
+import { StorageService } from '../StorageService';
+import { LocalTOTPAccount } from '../../types';
+
+const sampleInput: AccountInput = {
+  serviceName: 'GitHub',
+  accountName: 'developer',
+  secret: 'JBSWY3DPEHPK3PXP',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+};
+
+describe('AccountRepository', () => {
+  let repository: AccountRepository;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (StorageService as any).instance = undefined;
+    (AccountRepository as any).instance = undefined;
+    repository = AccountRepository.getInstance();
+  });
+
+  test('should persist added accounts as pending', async () => {
+    const account = await repository.addAccount(sampleInput);
+
+    expect(account.syncStatus).toBe('pending');
+    expect(await StorageService.getInstance().loadAccounts()).toEqual([
+      account,
+    ]);
+  });
+
+  test('should add imported accounts in a single write', async () => {
+    const listener = jest.fn();
+    repository.subscribe(listener);
+    listener.mockClear();
+
+    const added = await repository.addAccounts([
+      sampleInput,
+      { ...sampleInput, serviceName: 'Google' },
+    ]);
+
+    expect(new Set(added.map(account => account.id)).size).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await StorageService.getInstance().loadAccounts()).toEqual(added);
+  });
+
+  test('should notify subscribers of every mutation', async () => {
+    const listener = jest.fn();
+    repository.subscribe(listener);
+
+    const account = await repository.addAccount(sampleInput);
+    await repository.updateAccount(account.id, { serviceName: 'GitLab' });
+    await repository.deleteAccount(account.id);
+
+    const lists = listener.mock.calls.map(([accounts]) => accounts);
+    expect(lists).toHaveLength(4);
+    expect(lists[2][0].serviceName).toBe('GitLab');
+    expect(lists[3]).toEqual([]);
+  });
+
+  test('should keep existing accounts when mutating before load', async () => {
+    const first = await repository.addAccount(sampleInput);
+    (AccountRepository as any).instance = undefined;
+
+    await AccountRepository.getInstance().addAccount({
+      ...sampleInput,
+      serviceName: 'Google',
+    });
+
+    const stored = await StorageService.getInstance().loadAccounts();
+    expect(stored.map(account => account.id)).toContain(first.id);
+    expect(stored).toHaveLength(2);
+  });
+
+  test('should persist the advanced HOTP counter before returning', async () => {
+    const account = await repository.addAccount({
+      ...sampleInput,
+      type: 'hotp',
+      counter: 4,
+    });
+
+    expect(await repository.advanceCounter(account.id)).toBe(4);
+    expect(await repository.advanceCounter(account.id)).toBe(5);
+
+    const [stored] = await StorageService.getInstance().loadAccounts();
+    expect(stored.counter).toBe(6);
+    expect(stored.syncStatus).toBe('pending');
+  });
+
+  describe('applying sync results', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const synced = (account: LocalTOTPAccount): LocalTOTPAccount => ({
+      ...account,
+      syncStatus: 'synced',
+    });
+
+    test('should keep a counter advanced while the sync was in flight', async () => {
+      const account = await repository.addAccount({
+        ...sampleInput,
+        type: 'hotp',
+        counter: 4,
+      });
+      const snapshot = [...(await repository.load())];
+      jest.spyOn(Date, 'now').mockReturnValueOnce(account.lastModified + 1);
+
+      // The user takes a code while the sync is waiting on Firestore
+      expect(await repository.advanceCounter(account.id)).toBe(4);
+      await repository.applySyncResult(snapshot, [
+        { ...synced(account), serviceName: 'GitHub Enterprise' },
+      ]);
+
+      const [stored] = await StorageService.getInstance().loadAccounts();
+      expect(stored.counter).toBe(5);
+      expect(stored.serviceName).toBe('GitHub Enterprise');
+      expect(stored.syncStatus).toBe('pending');
+      expect(await repository.advanceCounter(account.id)).toBe(5);
+    });
+
+    test('should take the higher counter from the cloud', async () => {
+      const account = await repository.addAccount({
+        ...sampleInput,
+        type: 'hotp',
+        counter: 4,
+      });
+      const snapshot = [...(await repository.load())];
+
+      await repository.applySyncResult(snapshot, [
+        { ...synced(account), counter: 9 },
+      ]);
+
+      expect(repository.getAccount(account.id)).toMatchObject({
+        counter: 9,
+        syncStatus: 'synced',
+      });
+    });
+
+    test('should keep accounts added and deleted during the sync', async () => {
+      const kept = await repository.addAccount(sampleInput);
+      const removed = await repository.addAccount({
+        ...sampleInput,
+        serviceName: 'Google',
+      });
+      const snapshot = [...(await repository.load())];
+
+      const added = await repository.addAccount({
+        ...sampleInput,
+        serviceName: 'GitLab',
+      });
+      await repository.deleteAccount(removed.id);
+      await repository.applySyncResult(snapshot, [
+        synced(kept),
+        synced(removed),
+      ]);
+
+      expect(repository.getAccounts().map(account => account.id)).toEqual([
+        kept.id,
+        added.id,
+      ]);
+    });
+
+    test('should keep tombstones written during the sync', async () => {
+      const first = await repository.addAccount(sampleInput);
+      const second = await repository.addAccount(sampleInput);
+      await repository.deleteAccount(first.id);
+      const snapshot = await repository.getTombstones();
+
+      await repository.deleteAccount(second.id);
+      await repository.applySyncTombstones(
+        snapshot,
+        snapshot.map(tombstone => ({ ...tombstone, syncStatus: 'synced' }))
+      );
+
+      expect(await repository.getTombstones()).toEqual([
+        expect.objectContaining({ id: first.id, syncStatus: 'synced' }),
+        expect.objectContaining({ id: second.id, syncStatus: 'pending' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { gcm } from '@noble/ciphers/aes';
+import { scrypt } from '@noble/hashes/scrypt';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { importAegisVault, isEncryptedAegisVault } from '../AegisImport';
+import { bytesToBase64 } from '../../utils/crypto';
+
+const database = {
+  version: 3,
+  entries: [
+    {
+      type: 'totp',
+      uuid: 'e1',
+      name: 'alice@example.com',
+      issuer: 'GitHub',
+      note: 'Recovery codes in the safe',
+      icon: 'iVBORw0KGgo=',
+      icon_mime: 'image/png',
+      groups: ['g1'],
+      info: {
+        secret: 'JBSWY3DPEHPK3PXP',
+        algo: 'SHA256',
+        digits: 8,
+        period: 60,
+      },
+    },
+    {
+      type: 'hotp',
+      uuid: 'e2',
+      name: 'bob',
+      issuer: 'Bank',
+      info: {
+        secret: 'GEZDGNBVGY3TQOJQ',
+        algo: 'SHA1',
+        digits: 6,
+        counter: 42,
+      },
+    },
+    {
+      type: 'steam',
+      uuid: 'e3',
+      name: 'gamer',
+      issuer: 'Steam',
+      info: { secret: 'JBSWY3DPEHPK3PXP', algo: 'SHA1', digits: 5, period: 30 },
+    },
+    {
+      type: 'totp',
+      uuid: 'e4',
+      name: 'legacy',
+      issuer: 'Old',
+      info: { secret: 'JBSWY3DPEHPK3PXP', algo: 'MD5', digits: 6, period: 30 },
+    },
+    {
+      type: 'totp',
+      uuid: 'e5',
+      name: 'typo',
+      issuer: 'Mail',
+      info: { secret: 'JBSWY3DP-1!', algo: 'SHA1', digits: 6, period: 30 },
+    },
+    {
+      type: 'motp',
+      uuid: 'e6',
+      name: 'vpn',
+      issuer: 'Office',
+      info: { secret: 'JBSWY3DP', pin: '1234', digits: 6, period: 10 },
+    },
+  ],
+  groups: [{ uuid: 'g1', name: 'Work' }],
+};
+
+// Small scrypt cost so the test stays fast; Aegis itself uses N = 2^15
+const SCRYPT = { N: 1024, r: 8, p: 1 };
+
+const seal = (key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array) => {
+  const sealed = gcm(key, nonce).encrypt(plaintext);
+  return {
+    ciphertext: sealed.slice(0, -16),
+    params: { nonce: bytesToHex(nonce), tag: bytesToHex(sealed.slice(-16)) },
+  };
+};
+
+const encryptVault = (password: string) => {
+  const masterKey = new Uint8Array(32).fill(7);
+  const salt = new Uint8Array(32).fill(3);
+  const slotKey = scrypt(utf8ToBytes(password), salt, { ...SCRYPT, dkLen: 32 });
+  const wrapped = seal(slotKey, new Uint8Array(12).fill(1), masterKey);
+  const content = seal(
+    masterKey,
+    new Uint8Array(12).fill(2),
+    utf8ToBytes(JSON.stringify(database))
+  );
+
+  return JSON.stringify({
+    version: 1,
+    header: {
+      slots: [
+        {
+          type: 1,
+          uuid: 's1',
+          key: bytesToHex(wrapped.ciphertext),
+          key_params: wrapped.params,
+          n: SCRYPT.N,
+          r: SCRYPT.r,
+          p: SCRYPT.p,
+          salt: bytesToHex(salt),
+        },
+      ],
+      params: content.params,
+    },
+    db: bytesToBase64(content.ciphertext),
+  });
+};
+
+const plainVault = JSON.stringify({
+  version: 1,
+  header: { slots: null, params: null },
+  db: database,
+});
+
+describe('AegisImport', () => {
+  test('should map plain vault entries', async () => {
+    expect(isEncryptedAegisVault(plainVault)).toBe(false);
+
+    const batch = await importAegisVault(plainVault);
+
+    expect(batch.accounts).toHaveLength(3);
+    expect(batch.accounts[0]).toEqual({
+      serviceName: 'GitHub',
+      accountName: 'alice@example.com',
+      secret: 'JBSWY3DPEHPK3PXP',
+      algorithm: 'SHA256',
+      digits: 8,
+      period: 60,
+      iconUrl: 'data:image/png;base64,iVBORw0KGgo=',
+      type: 'totp',
+      group: 'Work',
+      notes: 'Recovery codes in the safe',
+    });
+    expect(batch.accounts[1]).toMatchObject({ type: 'hotp', counter: 42 });
+    expect(batch.accounts[2]).toMatchObject({
+      type: 'totp',
+      encoder: 'steam',
+      digits: 6,
+    });
+  });
+
+  test('should report unsupported entries instead of failing', async () => {
+    const batch = await importAegisVault(plainVault);
+
+    expect(batch.unsupported).toEqual([
+      'Old: legacy: MD5 is not supported',
+      'Mail: typo: secret is not valid Base32',
+      'Office: vpn: secret is too short for motp',
+    ]);
+  });
+
+  test('should decrypt password protected vaults', async () => {
+    const vault = encryptVault('hunter2');
+    expect(isEncryptedAegisVault(vault)).toBe(true);
+
+    const batch = await importAegisVault(vault, 'hunter2');
+
+    expect(batch).toEqual(await importAegisVault(plainVault));
+  });
+
+  test('should reject a wrong password', async () => {
+    const vault = encryptVault('hunter2');
+
+    await expect(importAegisVault(vault, 'wrong')).rejects.toThrow(
+      'Incorrect password'
+    );
+    await expect(importAegisVault(vault)).rejects.toThrow('encrypted');
+  });
+
+  test('should reject files that are not Aegis exports', async () => {
+    await expect(importAegisVault('{"entries": []}')).rejects.toThrow(
+      'not an Aegis export'
+    );
+  });
+});
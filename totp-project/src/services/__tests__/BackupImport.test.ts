@@ -0,0 +1,388 @@
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha1 } from '@noble/hashes/legacy';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { identifyBackup, importBackup } from '../BackupImport';
+import { bytesToBase64 } from '../../utils/crypto';
+
+const twoFASServices = [
+  {
+    name: 'GitHub',
+    secret: 'JBSWY3DPEHPK3PXP',
+    groupId: 'g1',
+    otp: {
+      account: 'alice@example.com',
+      digits: 6,
+      period: 30,
+      algorithm: 'SHA1',
+      tokenType: 'TOTP',
+    },
+  },
+  {
+    name: 'Steam',
+    secret: 'GEZDGNBVGY3TQOJQ',
+    otp: { account: 'gamer', digits: 5, tokenType: 'STEAM' },
+  },
+  {
+    name: 'Legacy',
+    secret: 'JBSWY3DPEHPK3PXP',
+    otp: { account: 'old', algorithm: 'MD5', tokenType: 'TOTP' },
+  },
+  {
+    name: 'Typo',
+    secret: 'JBSWY3DP0188',
+    otp: { account: 'carol', tokenType: 'TOTP' },
+  },
+];
+
+const andOTPEntries = [
+  {
+    secret: 'JBSWY3DPEHPK3PXP',
+    issuer: 'Bank',
+    label: 'bob',
+    digits: 8,
+    type: 'HOTP',
+    algorithm: 'SHA256',
+    counter: 7,
+    tags: ['Finance'],
+  },
+  {
+    secret: 'GEZDGNBVGY3TQOJQ',
+    issuer: '',
+    label: 'Example:carol',
+    digits: 6,
+    type: 'TOTP',
+    algorithm: 'SHA1',
+    period: 30,
+    tags: [],
+  },
+  { secret: 'ABCDEF1234', label: 'vpn', type: 'MOTP' },
+  { secret: 'JBSWY3DP1890', issuer: 'Mail', label: 'dave', type: 'TOTP' },
+];
+
+const file = (contents: string) => utf8ToBytes(contents);
+
+const encrypt2FAS = (password: string) => {
+  const salt = new Uint8Array(32).fill(5);
+  const iv = new Uint8Array(12).fill(6);
+  const key = pbkdf2(sha256, utf8ToBytes(password), salt, {
+    c: 10000,
+    dkLen: 32,
+  });
+  const sealed = gcm(key, iv).encrypt(
+    utf8ToBytes(JSON.stringify(twoFASServices))
+  );
+  return JSON.stringify({
+    schemaVersion: 4,
+    services: [],
+    servicesEncrypted: [sealed, salt, iv].map(bytesToBase64).join(':'),
+    groups: [{ id: 'g1', name: 'Work' }],
+  });
+};
+
+// Small iteration count so the test stays fast; it is stored in the file
+const encryptAndOTP = (password: string) => {
+  const iterations = 1000;
+  const salt = new Uint8Array(12).fill(8);
+  const iv = new Uint8Array(12).fill(9);
+  const key = pbkdf2(sha1, utf8ToBytes(password), salt, {
+    c: iterations,
+    dkLen: 32,
+  });
+  const sealed = gcm(key, iv).encrypt(
+    utf8ToBytes(JSON.stringify(andOTPEntries))
+  );
+
+  const data = new Uint8Array(4 + salt.length + iv.length + sealed.length);
+  new DataView(data.buffer).setUint32(0, iterations);
+  data.set(salt, 4);
+  data.set(iv, 4 + salt.length);
+  data.set(sealed, 4 + salt.length + iv.length);
+  return data;
+};
+
+describe('BackupImport', () => {
+  describe('2FAS', () => {
+    const plain = JSON.stringify({
+      schemaVersion: 4,
+      services: twoFASServices,
+      groups: [{ id: 'g1', name: 'Work' }],
+    });
+
+    test('should map services and report unsupported ones', async () => {
+      const backup = identifyBackup('backup.2fas', file(plain));
+      expect(backup).toMatchObject({ format: '2fas', encrypted: false });
+
+      const batch = await importBackup(backup);
+
+      expect(batch.accounts).toEqual([
+        {
+          serviceName: 'GitHub',
+          accountName: 'alice@example.com',
+          secret: 'JBSWY3DPEHPK3PXP',
+          algorithm: 'SHA1',
+          digits: 6,
+          period: 30,
+          type: 'totp',
+          group: 'Work',
+        },
+        expect.objectContaining({
+          serviceName: 'Steam',
+          encoder: 'steam',
+          digits: 6,
+        }),
+      ]);
+      expect(batch.unsupported).toEqual([
+        'Legacy: MD5 is not supported',
+        'Typo: secret is not valid Base32',
+      ]);
+    });
+
+    test('should decrypt password protected backups', async () => {
+      const backup = identifyBackup('backup.2fas', file(encrypt2FAS('secret')));
+      expect(backup.encrypted).toBe(true);
+
+      await expect(importBackup(backup, 'wrong')).rejects.toThrow(
+        'Incorrect password'
+      );
+      expect(await importBackup(backup, 'secret')).toEqual(
+        await importBackup(identifyBackup('backup.2fas', file(plain)))
+      );
+    });
+  });
+
+  describe('andOTP', () => {
+    const plain = JSON.stringify(andOTPEntries);
+
+    test('should map entries and report unsupported ones', async () => {
+      const backup = identifyBackup('otp_accounts.json', file(plain));
+      expect(backup).toMatchObject({ format: 'andotp', encrypted: false });
+
+      const batch = await importBackup(backup);
+
+      expect(batch.accounts).toEqual([
+        {
+          serviceName: 'Bank',
+          accountName: 'bob',
+          secret: 'JBSWY3DPEHPK3PXP',
+          algorithm: 'SHA256',
+          digits: 8,
+          period: 30,
+          type: 'hotp',
+          counter: 7,
+          group: 'Finance',
+        },
+        expect.objectContaining({
+          serviceName: 'Example',
+          accountName: 'carol',
+          type: 'totp',
+        }),
+      ]);
+      expect(batch.unsupported).toEqual([
+        'vpn: andOTP backups do not include the mOTP PIN',
+        'Mail: dave: secret is not valid Base32',
+      ]);
+    });
+
+    test('should decrypt .json.aes backups', async () => {
+      const backup = identifyBackup(
+        'otp_accounts.json.aes',
+        encryptAndOTP('secret')
+      );
+      expect(backup).toMatchObject({ format: 'andotp', encrypted: true });
+
+      await expect(importBackup(backup, 'wrong')).rejects.toThrow(
+        'Incorrect password'
+      );
+      expect(await importBackup(backup, 'secret')).toEqual(
+        await importBackup(identifyBackup('otp_accounts.json', file(plain)))
+      );
+    });
+
+    test('should reject backups with an absurd iteration count', async () => {
+      const data = encryptAndOTP('secret');
+      new DataView(data.buffer).setUint32(0, 0xffffffff);
+      const backup = identifyBackup('otp_accounts.json.aes', data);
+
+      await expect(importBackup(backup, 'secret')).rejects.toThrow(
+        'This andOTP backup is damaged'
+      );
+    });
+  });
+
+  describe('Bitwarden', () => {
+    const exported = {
+      encrypted: false,
+      folders: [{ id: 'f1', name: 'Work' }],
+      items: [
+        {
+          type: 1,
+          name: 'GitHub',
+          folderId: 'f1',
+          notes: 'Personal account',
+          login: {
+            username: 'alice',
+            totp: 'otpauth://totp/GitHub:alice?secret=JBSWY3DPEHPK3PXP&digits=8',
+          },
+        },
+        {
+          type: 1,
+          name: 'Steam',
+          login: { username: 'gamer', totp: 'steam://GEZDGNBVGY3TQOJQ' },
+        },
+        {
+          type: 1,
+          name: 'Mail',
+          login: { username: 'bob', totp: 'jbsw y3dp ehpk 3pxp' },
+        },
+        { type: 1, name: 'No 2FA', login: { username: 'carol', totp: null } },
+        { type: 2, name: 'Secure note' },
+        { type: 1, name: 'Broken', login: { totp: 'otpauth://totp/x' } },
+      ],
+    };
+
+    test('should map login TOTP fields and report bad ones', async () => {
+      const backup = identifyBackup(
+        'bitwarden_export.json',
+        file(JSON.stringify(exported))
+      );
+      expect(backup.format).toBe('bitwarden');
+
+      const batch = await importBackup(backup);
+
+      expect(batch.accounts).toEqual([
+        expect.objectContaining({
+          serviceName: 'GitHub',
+          accountName: 'alice',
+          digits: 8,
+          group: 'Work',
+          notes: 'Personal account',
+        }),
+        expect.objectContaining({
+          serviceName: 'Steam',
+          accountName: 'gamer',
+          secret: 'GEZDGNBVGY3TQOJQ',
+          encoder: 'steam',
+        }),
+        expect.objectContaining({
+          serviceName: 'Mail',
+          accountName: 'bob',
+          secret: 'JBSWY3DPEHPK3PXP',
+        }),
+      ]);
+      expect(batch.unsupported).toEqual([
+        'Item 6 (Broken): Invalid OTPAuth URL: Secret parameter is required',
+      ]);
+    });
+
+    test('should refuse encrypted exports', async () => {
+      const backup = identifyBackup(
+        'bitwarden_encrypted_export.json',
+        file(JSON.stringify({ encrypted: true, items: [] }))
+      );
+
+      await expect(importBackup(backup)).rejects.toThrow(
+        'Encrypted Bitwarden exports are not supported'
+      );
+    });
+  });
+
+  describe('FreeOTP+', () => {
+    test('should map tokens and report bad ones', async () => {
+      const exported = {
+        tokenOrder: ['Example:alice', 'bob', 'broken'],
+        tokens: [
+          {
+            type: 'TOTP',
+            algo: 'SHA256',
+            digits: 6,
+            period: 30,
+            issuerExt: 'Example',
+            label: 'alice',
+            // "Hello!\xde\xad\xbe\xef" as signed Java bytes
+            secret: [72, 101, 108, 108, 111, 33, -34, -83, -66, -17],
+          },
+          {
+            type: 'HOTP',
+            algo: 'SHA1',
+            digits: 8,
+            counter: 12,
+            label: 'bob',
+            secret: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+          },
+          { type: 'TOTP', label: 'broken', secret: [] },
+        ],
+      };
+      const backup = identifyBackup(
+        'freeotp-backup.json',
+        file(JSON.stringify(exported))
+      );
+      expect(backup.format).toBe('freeotp');
+
+      const batch = await importBackup(backup);
+
+      expect(batch.accounts).toEqual([
+        expect.objectContaining({
+          serviceName: 'Example',
+          accountName: 'alice',
+          secret: 'JBSWY3DPEHPK3PXP',
+          algorithm: 'SHA256',
+          type: 'totp',
+        }),
+        expect.objectContaining({
+          accountName: 'bob',
+          secret: 'AEBAGBAFAYDQQCIK',
+          digits: 8,
+          type: 'hotp',
+          counter: 12,
+        }),
+      ]);
+      expect(batch.unsupported).toEqual([
+        'Token 3 (broken): Secret is missing',
+      ]);
+    });
+  });
+
+  describe('otpauth:// list', () => {
+    test('should import each line and report bad lines by number', async () => {
+      const list = [
+        '# Exported accounts',
+        'otpauth://totp/GitHub:alice?secret=JBSWY3DPEHPK3PXP&issuer=GitHub',
+        '',
+        'otpauth://hotp/Bank:bob?secret=GEZDGNBVGY3TQOJQ&counter=3',
+        'otpauth://totp/Broken?issuer=Nowhere',
+        'https://example.com',
+      ].join('\n');
+      const backup = identifyBackup('accounts.txt', file(list));
+      expect(backup.format).toBe('otpauth');
+
+      const batch = await importBackup(backup);
+
+      expect(batch.accounts).toEqual([
+        expect.objectContaining({
+          serviceName: 'GitHub',
+          accountName: 'alice',
+        }),
+        expect.objectContaining({
+          serviceName: 'Bank',
+          type: 'hotp',
+          counter: 3,
+        }),
+      ]);
+      expect(batch.unsupported).toEqual([
+        'Line 5: Invalid OTPAuth URL: Secret parameter is required',
+        'Line 6: Invalid OTPAuth URL: Invalid OTPAuth URL protocol',
+      ]);
+    });
+  });
+
+  test('should reject files from unknown apps', () => {
+    expect(() =>
+      identifyBackup('notes.json', file('{"title": "shopping"}'))
+    ).toThrow('not a supported backup');
+    expect(() =>
+      identifyBackup('photo.png', new Uint8Array([0x89, 0x50]))
+    ).toThrow('not a supported backup');
+  });
+});
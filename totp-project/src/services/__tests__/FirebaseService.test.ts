@@ -0,0 +1,387 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getDocs,
+  runTransaction,
+  setDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { FirebaseService } from '../FirebaseService';
+import { AccountRepository, AccountInput } from '../AccountRepository';
+import { StorageService } from '../StorageService';
+import { SyncKeyService } from '../SyncKeyService';
+import { OfflineQueue } from '../OfflineQueue';
+import { pickSyncedFields } from '../SyncMerge';
+import { LocalTOTPAccount } from '../../types';
+import * as helpers from '../../utils/helpers';
+
+jest.mock('../firebase', () => ({
+  db: {},
+  COLLECTIONS: {
+    USERS: 'users',
+    ACCOUNTS: 'accounts',
+    TOMBSTONES: 'tombstones',
+  },
+}));
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn((_db, ...path: string[]) => ({ path: path.join('/') })),
+  collection: jest.fn((_db, ...path: string[]) => ({ path: path.join('/') })),
+  query: jest.fn(ref => ref),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  getDocs: jest.fn(),
+  runTransaction: jest.fn(),
+  writeBatch: jest.fn(),
+  setDoc: jest.fn(() => Promise.resolve()),
+  updateDoc: jest.fn(() => Promise.resolve()),
+  deleteDoc: jest.fn(() => Promise.resolve()),
+  serverTimestamp: jest.fn(() => 'server-timestamp'),
+  Timestamp: { fromMillis: jest.fn(millis => millis) },
+}));
+
+const USER_ID = 'user-1';
+
+const bank: AccountInput = {
+  serviceName: 'Bank',
+  accountName: 'bob',
+  secret: 'JBSWY3DPEHPK3PXP',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+  type: 'hotp',
+  counter: 4,
+};
+
+describe('FirebaseService', () => {
+  let service: FirebaseService;
+  let repository: AccountRepository;
+  // Account documents of the fake Firestore, by id
+  let cloud: Map<string, Record<string, unknown>>;
+  let updates: Record<string, unknown>[];
+  let beforeCommit: () => void;
+
+  const snapshotOf = (docs: Record<string, unknown>[]) => ({
+    forEach: (callback: (doc: unknown) => void) =>
+      docs.forEach(({ id, ...data }) => callback({ id, data: () => data })),
+  });
+
+  const cloudCopy = (
+    account: LocalTOTPAccount,
+    overrides: Record<string, unknown>
+  ) => ({
+    id: account.id,
+    serviceName: account.serviceName,
+    accountName: account.accountName,
+    encryptedSecret: `sealed:${account.secret}`,
+    algorithm: account.algorithm,
+    digits: account.digits,
+    period: account.period,
+    type: account.type,
+    counter: account.counter,
+    ...overrides,
+  });
+
+  // A synced account whose last agreed state is cloud revision 1
+  const addSyncedAccount = async (): Promise<LocalTOTPAccount> => {
+    const added = await repository.addAccount(bank);
+    await repository.markSyncStatus([added.id], 'synced');
+    const account = repository.getAccount(added.id)!;
+    await StorageService.getInstance().saveSyncAncestors([
+      { id: account.id, revision: 1, fields: pickSyncedFields(account) },
+    ]);
+    cloud.set(account.id, cloudCopy(account, { revision: 1 }));
+    return account;
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    (StorageService as any).instance = undefined;
+    (AccountRepository as any).instance = undefined;
+    (OfflineQueue as any).instance = undefined;
+    (FirebaseService as any).instance = undefined;
+    service = FirebaseService.getInstance();
+    repository = AccountRepository.getInstance();
+    cloud = new Map();
+    updates = [];
+    beforeCommit = () => {};
+
+    jest.spyOn(SyncKeyService.prototype, 'isUnlocked').mockReturnValue(true);
+    jest
+      .spyOn(SyncKeyService.prototype, 'encrypt')
+      .mockImplementation(value => `sealed:${value}`);
+    jest
+      .spyOn(SyncKeyService.prototype, 'decrypt')
+      .mockImplementation(value => {
+        if (!value.startsWith('sealed:')) {
+          throw new Error('Failed to decrypt data');
+        }
+        return value.slice('sealed:'.length);
+      });
+    await StorageService.getInstance().setMigrationComplete('account_ids_v1');
+    await StorageService.getInstance().setMigrationComplete(
+      `vault_secrets_v2_${USER_ID}`
+    );
+
+    (getDocs as jest.Mock).mockImplementation(async (ref: { path: string }) =>
+      snapshotOf(
+        ref.path.endsWith('/accounts') ? Array.from(cloud.values()) : []
+      )
+    );
+
+    // Like Firestore, re-run the transaction when its document changed
+    // between the read and the commit
+    (runTransaction as jest.Mock).mockImplementation(async (_db, update) => {
+      for (;;) {
+        let read: { id: string; revision: unknown } | undefined;
+        const pending: Record<string, unknown>[] = [];
+        const result = await update({
+          get: async (ref: { path: string }) => {
+            const id = ref.path.split('/').pop()!;
+            const { id: _, ...data } = cloud.get(id) || { id };
+            read = { id, revision: cloud.get(id)?.revision };
+            return {
+              id,
+              exists: () => cloud.has(id),
+              data: () => data,
+            };
+          },
+          update: (_ref: unknown, data: Record<string, unknown>) => {
+            pending.push(data);
+          },
+        });
+
+        beforeCommit();
+        if (read && cloud.get(read.id)?.revision !== read.revision) {
+          continue;
+        }
+        for (const data of pending) {
+          updates.push(data);
+          cloud.set(read!.id, { ...cloud.get(read!.id), ...data });
+        }
+        return result;
+      }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep an HOTP counter advanced while a sync is in flight', async () => {
+    const account = await addSyncedAccount();
+    // Another device renamed the account
+    cloud.set(
+      account.id,
+      cloudCopy(account, { serviceName: 'Big Bank', revision: 2 })
+    );
+
+    // The user takes a code while the download is still in flight
+    const download = (getDocs as jest.Mock).getMockImplementation()!;
+    (getDocs as jest.Mock).mockImplementationOnce(async ref => {
+      expect(await repository.advanceCounter(account.id)).toBe(4);
+      return download(ref);
+    });
+
+    const result = await service.syncAccounts(USER_ID);
+
+    expect(result.success).toBe(true);
+    const [stored] = await StorageService.getInstance().loadAccounts();
+    expect(stored).toMatchObject({
+      serviceName: 'Big Bank',
+      counter: 5,
+      syncStatus: 'pending',
+    });
+
+    // The next sync uploads the counter that was used
+    await service.syncAccounts(USER_ID);
+
+    expect(updates).toEqual([
+      expect.objectContaining({ counter: 5, revision: 3 }),
+    ]);
+  });
+
+  test('should re-merge when another device writes the same revision', async () => {
+    const account = await addSyncedAccount();
+    await repository.updateAccount(account.id, { notes: 'PIN in the safe' });
+
+    // Another device renames the account between our read and our write
+    let otherDeviceWrote = false;
+    beforeCommit = () => {
+      if (otherDeviceWrote) return;
+      otherDeviceWrote = true;
+      cloud.set(account.id, {
+        ...cloud.get(account.id),
+        serviceName: 'Big Bank',
+        revision: 2,
+      });
+    };
+    // The delta download does not include the account yet
+    (getDocs as jest.Mock).mockImplementationOnce(async () => snapshotOf([]));
+
+    const result = await service.syncAccounts(USER_ID);
+
+    expect(result.success).toBe(true);
+    expect(updates).toEqual([
+      {
+        encryptedNotes: 'sealed:PIN in the safe',
+        notes: null,
+        revision: 3,
+        updatedAt: 'server-timestamp',
+      },
+    ]);
+    expect(cloud.get(account.id)).toMatchObject({
+      serviceName: 'Big Bank',
+      encryptedNotes: 'sealed:PIN in the safe',
+      revision: 3,
+    });
+    expect(repository.getAccount(account.id)).toMatchObject({
+      serviceName: 'Big Bank',
+      notes: 'PIN in the safe',
+      syncStatus: 'synced',
+    });
+  });
+
+  test('should resurrect a deleted account another device edited meanwhile', async () => {
+    const account = await addSyncedAccount();
+    // This device deletes revision 1 with a clock running ahead of the server
+    jest.spyOn(Date, 'now').mockReturnValueOnce(Date.now() + 3600000);
+    await repository.deleteAccount(account.id);
+    // Meanwhile another device renamed the account
+    cloud.set(
+      account.id,
+      cloudCopy(account, {
+        serviceName: 'Big Bank',
+        revision: 2,
+        updatedAt: { toMillis: () => Date.now() },
+      })
+    );
+
+    const result = await service.syncAccounts(USER_ID);
+
+    expect(result.success).toBe(true);
+    expect(writeBatch).not.toHaveBeenCalled();
+    expect(repository.getAccount(account.id)).toMatchObject({
+      serviceName: 'Big Bank',
+      syncStatus: 'synced',
+    });
+    expect(await repository.getTombstones()).toEqual([]);
+  });
+
+  test('should keep an upload pending until Firestore acknowledges it', async () => {
+    const account = await repository.addAccount(bank);
+    // Offline writes never reject, they time out while the SDK holds them
+    let acknowledge = () => {};
+    const write = new Promise<void>(resolve => {
+      acknowledge = resolve;
+    });
+    (setDoc as jest.Mock).mockReturnValueOnce(write);
+    const withTimeout = helpers.withTimeout;
+    jest
+      .spyOn(helpers, 'withTimeout')
+      .mockImplementation((promise, ms) =>
+        promise === write
+          ? Promise.reject(new Error(`Operation timed out after ${ms}ms`))
+          : withTimeout(promise, ms)
+      );
+
+    const result = await service.syncAccounts(USER_ID);
+
+    expect(result.success).toBe(true);
+    expect(repository.getAccount(account.id)?.syncStatus).toBe('pending');
+    expect(await StorageService.getInstance().loadSyncAncestors()).toEqual([]);
+    const queue = OfflineQueue.getInstance();
+    expect(await queue.getUserOperations(USER_ID)).toEqual([
+      expect.objectContaining({ type: 'create', accountId: account.id }),
+    ]);
+
+    // The queued copy is dropped once the SDK commits the write
+    acknowledge();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(await queue.getUserOperations(USER_ID)).toEqual([]);
+  });
+
+  test('should re-seal cloud secrets and notes with the vault key once', async () => {
+    const account = await addSyncedAccount();
+    // Uploaded with this device's key; the PIN and notes were added on the
+    // cloud copy
+    cloud.set(
+      account.id,
+      cloudCopy(account, {
+        encryptedSecret: `device-key:${bank.secret}`,
+        encryptedPin: 'device-key:1234',
+        notes: 'Recovery codes in the safe',
+        revision: 1,
+      })
+    );
+    await AsyncStorage.removeItem(`@migration_vault_secrets_v2_${USER_ID}`);
+    const decrypt = StorageService.prototype.decrypt;
+    jest
+      .spyOn(StorageService.prototype, 'decrypt')
+      .mockImplementation(function (this: StorageService, value) {
+        return value.startsWith('device-key:')
+          ? Promise.resolve(value.slice('device-key:'.length))
+          : decrypt.call(this, value);
+      });
+
+    const result = await service.syncAccounts(USER_ID);
+
+    expect(result.success).toBe(true);
+    expect(updates).toEqual([
+      {
+        encryptedSecret: `sealed:${bank.secret}`,
+        encryptedPin: 'sealed:1234',
+        encryptedNotes: 'sealed:Recovery codes in the safe',
+        notes: null,
+        revision: 2,
+        updatedAt: 'server-timestamp',
+      },
+    ]);
+    expect(repository.getAccount(account.id)).toMatchObject({
+      pin: '1234',
+      notes: 'Recovery codes in the safe',
+      syncStatus: 'synced',
+    });
+
+    await service.syncAccounts(USER_ID);
+
+    expect(updates).toHaveLength(1);
+  });
+
+  test('should upload a resolved conflict after a sync in flight', async () => {
+    const account = await addSyncedAccount();
+    await repository.updateAccount(account.id, { serviceName: 'My Bank' });
+    cloud.set(
+      account.id,
+      cloudCopy(account, { serviceName: 'Big Bank', revision: 2 })
+    );
+    await service.syncAccounts(USER_ID);
+    expect(await service.getSyncConflicts()).toHaveLength(1);
+
+    // The user keeps the local name while another sync is still downloading
+    const download = (getDocs as jest.Mock).getMockImplementation()!;
+    (getDocs as jest.Mock).mockImplementationOnce(async ref => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return download(ref);
+    });
+
+    const [synced, resolved] = await Promise.all([
+      service.syncAccounts(USER_ID),
+      service.resolveSyncConflict(USER_ID, account.id, {
+        serviceName: 'local',
+      }),
+    ]);
+
+    expect(synced.success).toBe(true);
+    expect(resolved.success).toBe(true);
+    expect(updates).toEqual([
+      expect.objectContaining({ serviceName: 'My Bank', revision: 3 }),
+    ]);
+    expect(await service.getSyncConflicts()).toEqual([]);
+    expect(repository.getAccount(account.id)).toMatchObject({
+      serviceName: 'My Bank',
+      syncStatus: 'synced',
+    });
+  });
+});
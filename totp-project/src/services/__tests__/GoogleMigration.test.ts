@@ -0,0 +1,180 @@
+import {
+  createMigrationURLs,
+  decodeMigrationURL,
+  isMigrationURL,
+} from '../GoogleMigration';
+import { accountFromQRCode, isDuplicate } from '../AccountImport';
+import { LocalTOTPAccount } from '../../types';
+
+const account = (
+  overrides: Partial<LocalTOTPAccount> = {}
+): LocalTOTPAccount => ({
+  id: 'a1',
+  serviceName: 'GitHub',
+  accountName: 'developer',
+  secret: 'JBSWY3DPEHPK3PXP',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+  syncStatus: 'synced',
+  lastModified: 0,
+  ...overrides,
+});
+
+// Part 2 of 2 of an export: a TOTP account, an HOTP account and an MD5 entry
+const EXPORT_URL =
+  'otpauth-migration://offline?data=CkAKFDEyMzQ1Njc4OTAxMjM0NTY3ODkwEhlFeGFtcGxlOmFsaWNlQGV4YW1wbGUuY29tGgdFeGFtcGxlIAEoATACChsKCkhlbGxvId6tvu8SA2JvYhoAIAIoAjABOCoKKQoUMTIzNDU2Nzg5MDEyMzQ1Njc4OTASBmxlZ2FjeRoDT2xkIAQoATACEAEYAiABKMDEBw%3D%3D';
+
+describe('GoogleMigration', () => {
+  test('should recognise export URLs', () => {
+    expect(isMigrationURL(EXPORT_URL)).toBe(true);
+    expect(
+      isMigrationURL('otpauth://totp/Example?secret=JBSWY3DPEHPK3PXP')
+    ).toBe(false);
+  });
+
+  test('should decode accounts and batch information', () => {
+    const batch = decodeMigrationURL(EXPORT_URL);
+
+    expect(batch).toMatchObject({
+      batchId: 123456,
+      batchIndex: 1,
+      batchSize: 2,
+    });
+    expect(batch.entries).toEqual([
+      {
+        type: 'totp',
+        label: 'Example:alice@example.com',
+        secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+        issuer: 'Example',
+        algorithm: 'SHA1',
+        digits: 6,
+        period: 30,
+        counter: undefined,
+      },
+      {
+        type: 'hotp',
+        label: 'bob',
+        secret: 'JBSWY3DPEHPK3PXP',
+        issuer: undefined,
+        algorithm: 'SHA256',
+        digits: 8,
+        period: undefined,
+        counter: 42,
+      },
+    ]);
+    expect(batch.unsupported).toEqual(['legacy: unsupported algorithm']);
+  });
+
+  test('should map entries to accounts', () => {
+    const [totp, hotp] =
+      decodeMigrationURL(EXPORT_URL).entries.map(accountFromQRCode);
+
+    expect(totp).toMatchObject({
+      serviceName: 'Example',
+      accountName: 'alice@example.com',
+      period: 30,
+    });
+    expect(hotp).toMatchObject({
+      serviceName: 'Unknown Service',
+      accountName: 'bob',
+      type: 'hotp',
+      counter: 42,
+    });
+    expect(
+      isDuplicate(hotp, [{ secret: 'jbsw y3dp ehpk 3pxp', type: 'hotp' }])
+    ).toBe(true);
+    expect(isDuplicate(hotp, [{ secret: 'JBSWY3DPEHPK3PXP' }])).toBe(false);
+  });
+
+  test('should reject malformed payloads', () => {
+    expect(() =>
+      decodeMigrationURL('otpauth-migration://offline?foo=bar')
+    ).toThrow();
+    expect(() =>
+      decodeMigrationURL('otpauth-migration://offline?data=CkAKFDEy')
+    ).toThrow();
+    expect(() =>
+      decodeMigrationURL('otpauth://totp/x?secret=JBSWY3DPEHPK3PXP')
+    ).toThrow();
+  });
+
+  test('should export accounts that decode back to the same accounts', () => {
+    const accounts = [
+      account(),
+      account({
+        id: 'a2',
+        serviceName: 'Bank',
+        type: 'hotp',
+        counter: 7,
+        algorithm: 'SHA256',
+        digits: 8,
+      }),
+    ];
+
+    const { urls, unsupported } = createMigrationURLs(accounts, {
+      batchId: 99,
+    });
+
+    expect(unsupported).toEqual([]);
+    expect(urls).toHaveLength(1);
+    const batch = decodeMigrationURL(urls[0]);
+    expect(batch).toMatchObject({ batchId: 99, batchIndex: 0, batchSize: 1 });
+    expect(batch.entries.map(accountFromQRCode)).toEqual([
+      {
+        serviceName: 'GitHub',
+        accountName: 'developer',
+        secret: 'JBSWY3DPEHPK3PXP',
+        algorithm: 'SHA1',
+        digits: 6,
+        period: 30,
+        type: 'totp',
+        counter: undefined,
+        encoder: undefined,
+      },
+      expect.objectContaining({
+        serviceName: 'Bank',
+        type: 'hotp',
+        counter: 7,
+        algorithm: 'SHA256',
+        digits: 8,
+      }),
+    ]);
+  });
+
+  test('should split large exports across QR codes', () => {
+    const accounts = Array.from({ length: 10 }, (_, index) =>
+      account({ id: `a${index}`, accountName: `user${index}@example.com` })
+    );
+
+    const { urls } = createMigrationURLs(accounts, {
+      maxPayloadBytes: 200,
+      batchId: 5,
+    });
+
+    expect(urls.length).toBeGreaterThan(1);
+    const batches = urls.map(decodeMigrationURL);
+    batches.forEach((batch, index) => {
+      expect(batch).toMatchObject({
+        batchId: 5,
+        batchIndex: index,
+        batchSize: urls.length,
+      });
+    });
+    expect(
+      batches.flatMap(batch => batch.entries.map(entry => entry.label))
+    ).toEqual(accounts.map(a => `GitHub:${a.accountName}`));
+  });
+
+  test('should leave out accounts the format cannot represent', () => {
+    const { urls, unsupported } = createMigrationURLs([
+      account({ type: 'yandex' }),
+      account({ encoder: 'steam' }),
+      account({ digits: 7 }),
+      account({ period: 60 }),
+    ]);
+
+    expect(urls).toEqual([]);
+    expect(unsupported).toHaveLength(4);
+  });
+});
@@ -0,0 +1,115 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OfflineQueue, QueuedOperation } from '../OfflineQueue';
+import { NETWORK, STORAGE_KEYS } from '../../utils/constants';
+
+const offlineError = () =>
+  Object.assign(new Error('Client is offline'), { code: 'unavailable' });
+
+describe('OfflineQueue', () => {
+  let queue: OfflineQueue;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (OfflineQueue as any).instance = undefined;
+    queue = OfflineQueue.getInstance();
+  });
+
+  test('should persist operations in order', async () => {
+    await queue.enqueue({ type: 'create', userId: 'u1', accountId: 'a' });
+    await queue.enqueue({ type: 'delete', userId: 'u1', accountId: 'b' });
+
+    const stored = JSON.parse(
+      (await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE)) || '[]'
+    );
+    expect(stored.map((op: QueuedOperation) => op.accountId)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  test('should replay in order and stop at the first network failure', async () => {
+    await queue.enqueue({ type: 'create', userId: 'u1', accountId: 'a' });
+    await queue.enqueue({ type: 'update', userId: 'u1', accountId: 'b' });
+    await queue.enqueue({ type: 'delete', userId: 'u1', accountId: 'c' });
+
+    const executed: string[] = [];
+    const result = await queue.replay('u1', async operation => {
+      if (operation.accountId === 'b') {
+        throw offlineError();
+      }
+      executed.push(operation.accountId);
+    });
+
+    expect(executed).toEqual(['a']);
+    expect(result).toEqual({ completed: 1, failed: 0, remaining: 2 });
+
+    const operations = await queue.getOperations();
+    expect(operations.map(op => op.accountId)).toEqual(['b', 'c']);
+    expect(operations[0].attempts).toBe(1);
+    expect(operations[0].nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+
+  test('should not let later operations overtake one that is backing off', async () => {
+    await queue.enqueue({ type: 'update', userId: 'u1', accountId: 'a' });
+    await queue.enqueue({ type: 'update', userId: 'u1', accountId: 'b' });
+    await queue.enqueue({ type: 'delete', userId: 'u1', accountId: 'a' });
+
+    const executed: string[] = [];
+    await queue.replay('u1', async operation => {
+      if (operation.accountId === 'a') {
+        throw new Error('permission-denied');
+      }
+      executed.push(`${operation.type} ${operation.accountId}`);
+    });
+
+    // The rejected update holds back the delete of the same account
+    expect(executed).toEqual(['update b']);
+    expect((await queue.getOperations()).map(op => op.type)).toEqual([
+      'update',
+      'delete',
+    ]);
+
+    // While the update waits for its retry, nothing behind it runs
+    const executor = jest.fn().mockResolvedValue(undefined);
+    await queue.replay('u1', executor);
+    expect(executor).not.toHaveBeenCalled();
+  });
+
+  test("should only replay the signed-in user's operations", async () => {
+    await queue.enqueue({ type: 'create', userId: 'u1', accountId: 'a' });
+    await queue.enqueue({ type: 'create', userId: 'u2', accountId: 'b' });
+
+    const executor = jest.fn().mockResolvedValue(undefined);
+    const result = await queue.replay('u2', executor);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor.mock.calls[0][0].accountId).toBe('b');
+    expect(result).toEqual({ completed: 1, failed: 0, remaining: 0 });
+    expect(await queue.getUserOperations('u1')).toHaveLength(1);
+
+    await queue.clear();
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE)).toBeNull();
+    expect(await queue.getOperations()).toEqual([]);
+  });
+
+  test('should mark operations failed after the retry limit', async () => {
+    await queue.enqueue({ type: 'update', userId: 'u1', accountId: 'a' });
+    const rejected = jest
+      .fn()
+      .mockRejectedValue(new Error('permission-denied'));
+
+    for (let i = 0; i < NETWORK.RETRY_ATTEMPTS; i++) {
+      const operations = await queue.getOperations();
+      operations.forEach(op => (op.nextAttemptAt = 0));
+      await queue.replay('u1', rejected);
+    }
+
+    const [operation] = await queue.getOperations();
+    expect(operation.status).toBe('failed');
+    expect(operation.lastError).toBe('permission-denied');
+
+    await queue.retryOperation(operation.id);
+    await queue.replay('u1', jest.fn().mockResolvedValue(undefined));
+    expect(await queue.getOperations()).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+import { StorageService } from '../StorageService';
+import { pickSyncedFields } from '../SyncMerge';
+import { LocalTOTPAccount } from '@/types';
+
+const TEST_KEY =
+  '00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff';
+
+const sampleAccount: LocalTOTPAccount = {
+  id: 'account-1',
+  serviceName: 'GitHub',
+  accountName: 'developer',
+  secret: 'JBSWY3DPEHPK3PXP',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+  syncStatus: 'synced',
+  lastModified: 1700000000000,
+};
+
+// Reproduces the pre-AES-GCM XOR cipher to build legacy fixtures
+const legacyEncrypt = (data: string): string => {
+  const dataBytes = new TextEncoder().encode(data);
+  const keyBytes = TEST_KEY.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16));
+  const iv = new Uint8Array(16).map((_, i) => i * 7);
+  const combined = new Uint8Array(16 + dataBytes.length);
+  combined.set(iv);
+  for (let i = 0; i < dataBytes.length; i++) {
+    combined[16 + i] =
+      dataBytes[i] ^ keyBytes[i % keyBytes.length] ^ iv[i % 16];
+  }
+  return btoa(String.fromCharCode(...combined));
+};
+
+describe('StorageService', () => {
+  let storageService: StorageService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (StorageService as any).instance = undefined;
+    (Keychain.getInternetCredentials as jest.Mock).mockResolvedValue({
+      username: 'encryption_key',
+      password: TEST_KEY,
+    });
+    storageService = StorageService.getInstance();
+    await storageService.initialize();
+  });
+
+  describe('AES-256-GCM encryption', () => {
+    test('should round-trip data through a versioned envelope', async () => {
+      const encrypted = await storageService.encrypt('secret data');
+      const envelope = JSON.parse(encrypted);
+
+      expect(envelope).toMatchObject({ v: 1, alg: 'AES-256-GCM' });
+      expect(envelope.nonce).toBeDefined();
+      expect(envelope.tag).toBeDefined();
+      expect(await storageService.decrypt(encrypted)).toBe('secret data');
+    });
+
+    test('should reject a tampered ciphertext', async () => {
+      const envelope = JSON.parse(await storageService.encrypt('secret data'));
+      const ct = atob(envelope.ct);
+      envelope.ct = btoa(
+        String.fromCharCode(ct.charCodeAt(0) ^ 1) + ct.substring(1)
+      );
+
+      await expect(
+        storageService.decrypt(JSON.stringify(envelope))
+      ).rejects.toThrow('authentication failed');
+    });
+
+    test('should reject a truncated envelope', async () => {
+      const encrypted = await storageService.encrypt('secret data');
+
+      await expect(
+        storageService.decrypt(encrypted.substring(0, encrypted.length - 10))
+      ).rejects.toThrow('Failed to decrypt data');
+    });
+  });
+
+  describe('Account storage', () => {
+    test('should save and load accounts', async () => {
+      await storageService.saveAccounts([sampleAccount]);
+
+      expect(await storageService.loadAccounts()).toEqual([sampleAccount]);
+    });
+
+    test('should migrate legacy XOR-encrypted vaults on load', async () => {
+      const legacyAccounts = [
+        { ...sampleAccount, secret: legacyEncrypt(sampleAccount.secret) },
+      ];
+      await AsyncStorage.setItem(
+        '@totp_accounts',
+        legacyEncrypt(JSON.stringify(legacyAccounts))
+      );
+
+      expect(await storageService.loadAccounts()).toEqual([sampleAccount]);
+
+      const stored = await AsyncStorage.getItem('@totp_accounts');
+      expect(JSON.parse(stored!)).toMatchObject({ v: 1, alg: 'AES-256-GCM' });
+      expect(await storageService.loadAccounts()).toEqual([sampleAccount]);
+    });
+
+    test('should refuse to load a tampered vault', async () => {
+      await storageService.saveAccounts([sampleAccount]);
+      const envelope = JSON.parse(
+        (await AsyncStorage.getItem('@totp_accounts'))!
+      );
+      envelope.tag = btoa('A'.repeat(16));
+      await AsyncStorage.setItem('@totp_accounts', JSON.stringify(envelope));
+
+      await expect(storageService.loadAccounts()).rejects.toThrow(
+        'Failed to load accounts from storage'
+      );
+    });
+  });
+
+  describe('sync cursor', () => {
+    test('should store the cursor together with its owner', async () => {
+      await storageService.setSyncCursor(1700000000000, {
+        userId: 'user-1',
+        schemaVersion: 1,
+      });
+
+      expect(await storageService.getLastSyncTime()).toBe(1700000000000);
+      expect(await storageService.getSyncCursorState()).toEqual({
+        userId: 'user-1',
+        schemaVersion: 1,
+      });
+
+      await storageService.resetSyncCursor();
+      expect(await storageService.getLastSyncTime()).toBe(0);
+      expect(await storageService.getSyncCursorState()).toBeNull();
+    });
+  });
+
+  describe('sync state', () => {
+    test('should encrypt ancestors and clear them with all data', async () => {
+      // A fresh instance has not loaded its key yet
+      (StorageService as any).instance = undefined;
+      const fresh = StorageService.getInstance();
+      const ancestors = [
+        {
+          id: 'account-1',
+          revision: 2,
+          fields: pickSyncedFields(sampleAccount),
+        },
+      ];
+
+      await fresh.saveSyncAncestors(ancestors);
+
+      const stored = await AsyncStorage.getItem('@sync_ancestors');
+      expect(stored).not.toContain(sampleAccount.secret);
+      expect(await fresh.loadSyncAncestors()).toEqual(ancestors);
+
+      await fresh.clearAllData();
+      expect(await fresh.loadSyncAncestors()).toEqual([]);
+      expect(await fresh.loadSyncConflicts()).toEqual([]);
+    });
+  });
+});
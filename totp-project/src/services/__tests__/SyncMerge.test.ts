@@ -0,0 +1,114 @@
+import {
+  applySyncedFields,
+  mergeAccountFields,
+  pickSyncedFields,
+} from '../SyncMerge';
+import { LocalTOTPAccount, SyncedAccountFields } from '@/types';
+
+const base: SyncedAccountFields = {
+  serviceName: 'GitHub',
+  accountName: 'developer',
+  secret: 'JBSWY3DPEHPK3PXP',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+};
+
+describe('mergeAccountFields', () => {
+  test('should keep edits made to different fields on each side', () => {
+    const result = mergeAccountFields(
+      base,
+      { ...base, accountName: 'work' },
+      { ...base, serviceName: 'GitHub Enterprise' }
+    );
+
+    expect(result.merged).toEqual({
+      ...base,
+      accountName: 'work',
+      serviceName: 'GitHub Enterprise',
+    });
+    expect(result.localChanges).toEqual(['accountName']);
+    expect(result.cloudChanges).toEqual(['serviceName']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test('should record a conflict when both sides change the same field', () => {
+    const result = mergeAccountFields(
+      base,
+      { ...base, serviceName: 'GitHub Work' },
+      { ...base, serviceName: 'GitHub Personal' }
+    );
+
+    expect(result.conflicts).toEqual([
+      {
+        field: 'serviceName',
+        base: 'GitHub',
+        local: 'GitHub Work',
+        cloud: 'GitHub Personal',
+      },
+    ]);
+    expect(result.merged.serviceName).toBe('GitHub Work');
+    expect(result.ancestor.serviceName).toBe('GitHub');
+    expect(result.localChanges).toEqual([]);
+  });
+
+  test('should treat identical edits on both sides as agreed', () => {
+    const edited = { ...base, period: 60 };
+    const result = mergeAccountFields(base, edited, edited);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.ancestor).toEqual(edited);
+  });
+
+  test('should report every difference as a conflict without an ancestor', () => {
+    const result = mergeAccountFields(undefined, { ...base, digits: 8 }, base);
+
+    expect(result.conflicts.map(conflict => conflict.field)).toEqual([
+      'digits',
+    ]);
+  });
+
+  test('should always keep the highest HOTP counter', () => {
+    const hotpBase = { ...base, type: 'hotp' as const, counter: 5 };
+    const result = mergeAccountFields(
+      hotpBase,
+      { ...hotpBase, counter: 9 },
+      { ...hotpBase, counter: 7 }
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.counter).toBe(9);
+    expect(result.localChanges).toEqual(['counter']);
+    expect(result.cloudChanges).toEqual([]);
+  });
+});
+
+describe('inline icons', () => {
+  const account: LocalTOTPAccount = {
+    ...base,
+    id: 'account-1',
+    iconUrl: 'data:image/png;base64,iVBORw0KGgo=',
+    syncStatus: 'synced',
+    lastModified: 0,
+  };
+
+  test('should keep inline icons out of the synchronized fields', () => {
+    expect(pickSyncedFields(account).iconUrl).toBeUndefined();
+    expect(
+      pickSyncedFields({ ...account, iconUrl: 'https://example.com/icon.png' })
+        .iconUrl
+    ).toBe('https://example.com/icon.png');
+  });
+
+  test('should keep an inline icon when applying merged fields', () => {
+    const fields = pickSyncedFields(account);
+
+    expect(applySyncedFields(account, fields).iconUrl).toBe(account.iconUrl);
+    expect(
+      applySyncedFields(account, {
+        ...fields,
+        iconUrl: 'https://example.com/icon.png',
+      }).iconUrl
+    ).toBe('https://example.com/icon.png');
+  });
+});
@@ -79,4 +79,424 @@ describe('TOTPService', () => {
       expect(url).toContain('secret=JBSWY3DPEHPK3PXP');
     });
   });
+
+  describe('RFC 6238 core', () => {
+    // RFC 6238 Appendix B: ASCII seeds of 20, 32 and 64 bytes, 8 digits
+    const seeds = {
+      SHA1: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+      SHA256: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA',
+      SHA512:
+        'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA',
+    } as const;
+    const times = [
+      59, 1111111109, 1111111111, 1234567890, 2000000000, 20000000000,
+    ];
+    const expected = {
+      SHA1: [
+        '94287082',
+        '07081804',
+        '14050471',
+        '89005924',
+        '69279037',
+        '65353130',
+      ],
+      SHA256: [
+        '46119246',
+        '68084774',
+        '67062674',
+        '91819424',
+        '90698825',
+        '77737706',
+      ],
+      SHA512: [
+        '90693936',
+        '25091201',
+        '99943326',
+        '93441116',
+        '38618901',
+        '47863826',
+      ],
+    };
+
+    afterEach(() => {
+      totpService.setClock(() => Date.now());
+    });
+
+    test.each(['SHA1', 'SHA256', 'SHA512'] as const)(
+      'should match the RFC 6238 %s test vectors',
+      algorithm => {
+        times.forEach((time, index) => {
+          expect(
+            totpService.generateAt(
+              seeds[algorithm],
+              { algorithm, digits: 8 },
+              time * 1000
+            )
+          ).toBe(expected[algorithm][index]);
+        });
+      }
+    );
+
+    test('should read the current time from the injected clock', () => {
+      totpService.setClock(() => 1111111109 * 1000);
+
+      expect(totpService.generateTOTP(seeds.SHA1, { digits: 8 })).toBe(
+        '07081804'
+      );
+      expect(totpService.getTimeRemaining()).toBe(1);
+      expect(
+        totpService.validateTOTP('14050471', seeds.SHA1, { digits: 8 })
+      ).toBe(true);
+      expect(
+        totpService.validateTOTP('14050471', seeds.SHA1, {
+          digits: 8,
+          window: 0,
+        })
+      ).toBe(false);
+    });
+
+    test('should list codes around the current period', () => {
+      totpService.setClock(() => 1111111109 * 1000);
+
+      const range = totpService.generateTOTPRange(seeds.SHA1, 3, {
+        digits: 8,
+      });
+      expect(range.map(entry => entry.code)).toEqual([
+        totpService.generateAt(seeds.SHA1, { digits: 8 }, 1111111079 * 1000),
+        '07081804',
+        '14050471',
+      ]);
+    });
+
+    test('should shift codes and countdowns by the account offset', () => {
+      totpService.setClock(() => 1111111107 * 1000);
+
+      const account = {
+        secret: seeds.SHA1,
+        algorithm: 'SHA1',
+        digits: 8,
+        period: 30,
+        timeOffsetSeconds: 2,
+      };
+      expect(totpService.generateAccountCode(account)).toBe('07081804');
+      expect(
+        totpService.generateAccountCode({ ...account, timeOffsetSeconds: 4 })
+      ).toBe('14050471');
+      expect(totpService.getTimeRemaining(30, 2)).toBe(1);
+      expect(totpService.getTimeRemaining(30, 4)).toBe(29);
+    });
+
+    test('should suggest the offset of a code the server accepted', () => {
+      totpService.setClock(() => 1111111109 * 1000);
+
+      const ahead = totpService.generateAt(
+        seeds.SHA1,
+        {},
+        1111111109 * 1000 + 90_000
+      );
+      expect(totpService.suggestTimeOffset(ahead, seeds.SHA1)).toBe(90);
+      const behind = totpService.generateAt(
+        seeds.SHA1,
+        {},
+        1111111109 * 1000 - 300_000
+      );
+      expect(totpService.suggestTimeOffset(behind, seeds.SHA1)).toBe(-300);
+      expect(
+        totpService.suggestTimeOffset(ahead, seeds.SHA1, {
+          maxOffsetSeconds: 60,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('Secret encodings', () => {
+    // "12345678901234567890", the RFC 4226 test secret, in each encoding
+    const base32 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    test.each([
+      [
+        'spaced lowercase Base32',
+        'gezd gnbv gy3t qojq gezd gnbv gy3t qojq',
+        'base32',
+      ],
+      ['hex', '3132333435363738393031323334353637383930', 'hex'],
+      [
+        'spaced hex',
+        '31 32 33 34 35 36 37 38 39 30 31 32 33 34 35 36 37 38 39 30',
+        'hex',
+      ],
+      ['Base64', 'MTIzNDU2Nzg5MDEyMzQ1Njc4OTA=', 'base64'],
+      ['unpadded Base64', 'MTIzNDU2Nzg5MDEyMzQ1Njc4OTA', 'base64'],
+    ])('should detect and normalize %s', (_, input, encoding) => {
+      expect(totpService.normalizeSecret(input)).toEqual({
+        success: true,
+        data: { secret: base32, encoding, bits: 160, isWeak: false },
+      });
+    });
+
+    test('should honour an explicit encoding', () => {
+      // Valid as both Base32 and hex; auto-detection prefers Base32
+      const result = totpService.normalizeSecret('ABCDEF2345ABCDEF2345', 'hex');
+
+      expect(result.data?.encoding).toBe('hex');
+      expect(result.data?.bits).toBe(80);
+      expect(result.data?.isWeak).toBe(true);
+      expect(
+        totpService.normalizeSecret('ABCDEF2345ABCDEF2345').data?.encoding
+      ).toBe('base32');
+    });
+
+    test('should reject short, repetitive and malformed secrets', () => {
+      const rejected = [
+        totpService.normalizeSecret('JBSWY3DP'),
+        totpService.normalizeSecret('AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA'),
+        totpService.normalizeSecret('not a secret!'),
+        totpService.normalizeSecret('313233', 'base64'),
+        totpService.normalizeSecret('GEZDGNBVGY3TQOJQ', 'hex'),
+      ];
+
+      rejected.forEach(result => {
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('totp/invalid-secret');
+        expect(result.message).toBeTruthy();
+      });
+    });
+  });
+
+  describe('Parameter detection', () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    const now = 1700000000 * 1000;
+
+    beforeEach(() => {
+      totpService.setClock(() => now);
+    });
+
+    afterEach(() => {
+      totpService.setClock(() => Date.now());
+    });
+
+    test('should find the parameters that produced a code', () => {
+      const options = { algorithm: 'SHA256', digits: 8, period: 60 } as const;
+      const code = totpService.generateAt(secret, options, now - 60_000);
+
+      expect(totpService.detectTOTPParameters(secret, [code])).toEqual([
+        options,
+      ]);
+    });
+
+    test('should require the second code to follow the first', () => {
+      const options = { algorithm: 'SHA1', digits: 6, period: 30 } as const;
+      const first = totpService.generateAt(secret, options, now);
+      const next = totpService.generateAt(secret, options, now + 30_000);
+
+      expect(totpService.detectTOTPParameters(secret, [first, next])).toEqual([
+        options,
+      ]);
+      expect(totpService.detectTOTPParameters(secret, [next, first])).toEqual(
+        []
+      );
+    });
+
+    test('should report no match for codes outside the window', () => {
+      const code = totpService.generateAt(secret, {}, now - 10 * 60_000);
+
+      expect(totpService.detectTOTPParameters(secret, [code])).toEqual([]);
+      expect(() => totpService.detectTOTPParameters(secret, [])).toThrow();
+      expect(() =>
+        totpService.detectTOTPParameters(secret, ['12a456'])
+      ).toThrow();
+    });
+  });
+
+  describe('HOTP', () => {
+    // RFC 4226 Appendix D: ASCII secret "12345678901234567890"
+    const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    const rfcCodes = [
+      '755224',
+      '287082',
+      '359152',
+      '969429',
+      '338314',
+      '254676',
+      '287922',
+      '162583',
+      '399871',
+      '520489',
+    ];
+
+    test('should match the RFC 4226 test vectors', () => {
+      rfcCodes.forEach((expected, counter) => {
+        expect(totpService.generateHOTP(rfcSecret, counter)).toBe(expected);
+      });
+    });
+
+    test('should parse HOTP URLs with a default counter', () => {
+      const result = totpService.parseOTPAuthURL(
+        'otpauth://hotp/Example:alice?secret=JBSWY3DPEHPK3PXP&issuer=Example'
+      );
+
+      expect(result.type).toBe('hotp');
+      expect(result.counter).toBe(0);
+    });
+
+    test('should reject negative counters', () => {
+      expect(() => totpService.generateHOTP(rfcSecret, -1)).toThrow();
+    });
+
+    test('should encode Steam Guard codes with the Steam alphabet', () => {
+      expect(totpService.generateHOTP(rfcSecret, 0, { encoder: 'steam' })).toBe(
+        'GG5F5'
+      );
+      expect(totpService.generateHOTP(rfcSecret, 1, { encoder: 'steam' })).toBe(
+        'PV9M4'
+      );
+      expect(totpService.generateTOTP(rfcSecret, { encoder: 'steam' })).toMatch(
+        /^[23456789BCDFGHJKMNPQRTVWXY]{5}$/
+      );
+    });
+
+    test('should detect Steam Guard URIs', () => {
+      expect(
+        totpService.parseOTPAuthURL(
+          'otpauth://totp/Steam:gamer?secret=JBSWY3DPEHPK3PXP&issuer=Steam'
+        ).encoder
+      ).toBe('steam');
+      expect(
+        totpService.parseOTPAuthURL(
+          'otpauth://totp/gamer?secret=JBSWY3DPEHPK3PXP&encoder=steam'
+        ).encoder
+      ).toBe('steam');
+      expect(
+        totpService.parseOTPAuthURL(
+          'otpauth://totp/GitHub:dev?secret=JBSWY3DPEHPK3PXP'
+        ).encoder
+      ).toBeUndefined();
+    });
+
+    test('should resync to the counter after two consecutive codes', () => {
+      expect(
+        totpService.resyncHOTP(rfcSecret, rfcCodes[6], rfcCodes[7], 2)
+      ).toBe(8);
+    });
+
+    test('should not resync outside the look-ahead window', () => {
+      expect(
+        totpService.resyncHOTP(rfcSecret, rfcCodes[6], rfcCodes[7], 2, {
+          window: 3,
+        })
+      ).toBeNull();
+      expect(
+        totpService.resyncHOTP(rfcSecret, rfcCodes[6], rfcCodes[8], 0)
+      ).toBeNull();
+    });
+  });
+
+  describe('Yandex Key and mOTP', () => {
+    test('should match Yandex Key reference codes', () => {
+      expect(
+        totpService.generateYandexOTP(
+          'LA2V6KMCGYMWWVEW64RNP3JA3IAAAAAAHTSG4HRZPI',
+          '7586',
+          undefined,
+          1581064020 * 1000
+        )
+      ).toBe('oactmacq');
+      expect(
+        totpService.generateYandexOTP(
+          'JBGSAU4G7IEZG6OY4UAXX62JU4AAAAAAHTSG4HXU3M',
+          '5210481216086702',
+          undefined,
+          1581093059 * 1000
+        )
+      ).toBe('vunyprpd');
+    });
+
+    test('should hash the epoch, secret and PIN for mOTP', () => {
+      expect(
+        totpService.generateMOTP(
+          '0123456789ABCDEF',
+          '1234',
+          undefined,
+          1700000000000
+        )
+      ).toBe('05aae5');
+    });
+
+    test('should reject invalid PINs and secrets', () => {
+      expect(totpService.validatePin('12')).toBe(false);
+      expect(totpService.validatePin('1234')).toBe(true);
+      expect(totpService.validateSecret('0123456789abcdef', 'motp')).toBe(true);
+      expect(totpService.validateSecret('JBSWY3DPEHPK3PXP', 'yandex')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('OCRA', () => {
+    // RFC 6287 Appendix C keys: ASCII "1234567890..." of 20, 32 and 64 bytes
+    const key20 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    const key32 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+    const key64 =
+      'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA';
+
+    test('should parse suite strings', () => {
+      expect(
+        totpService.parseOCRASuite('OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1')
+      ).toEqual({
+        suite: 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1',
+        algorithm: 'SHA256',
+        digits: 8,
+        counter: true,
+        challengeFormat: 'N',
+        challengeMaxLength: 8,
+        pinHash: 'SHA1',
+      });
+      expect(
+        totpService.parseOCRASuite('OCRA-1:HOTP-SHA1-6:QA08-S064-T1M')
+      ).toMatchObject({ sessionLength: 64, timeStep: 60 });
+      expect(() =>
+        totpService.parseOCRASuite('OCRA-1:HOTP-MD5-6:QN08')
+      ).toThrow('Invalid OCRA suite');
+    });
+
+    test('should match the RFC 6287 one-way test vectors', () => {
+      expect(
+        totpService.generateOCRA(key20, 'OCRA-1:HOTP-SHA1-6:QN08', {
+          challenge: '11111111',
+        })
+      ).toBe('243178');
+      expect(
+        totpService.generateOCRA(key32, 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1', {
+          challenge: '12345678',
+          counter: 1,
+          pin: '1234',
+        })
+      ).toBe('86775851');
+      expect(
+        totpService.generateOCRA(key64, 'OCRA-1:HOTP-SHA512-8:C-QN08', {
+          challenge: '11111111',
+          counter: 1,
+        })
+      ).toBe('63947962');
+      expect(
+        totpService.generateOCRA(key64, 'OCRA-1:HOTP-SHA512-8:QN08-T1M', {
+          challenge: '00000000',
+          timestampMs: 0x132d0b6 * 60 * 1000,
+        })
+      ).toBe('95209754');
+    });
+
+    test('should require the inputs the suite names', () => {
+      expect(() =>
+        totpService.generateOCRA(key32, 'OCRA-1:HOTP-SHA256-8:QN08-PSHA1', {
+          challenge: '12345678',
+        })
+      ).toThrow('needs a PIN');
+      expect(() =>
+        totpService.generateOCRA(key20, 'OCRA-1:HOTP-SHA1-6:QN08', {
+          challenge: '12AB',
+        })
+      ).toThrow('Challenge');
+    });
+  });
 });
@@ -0,0 +1,176 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TimeSyncService, computeClockOffset } from '../TimeSyncService';
+import { TOTPService } from '../TOTPService';
+import { STORAGE_KEYS, TIME_SYNC } from '../../utils/constants';
+
+const DEVICE_NOW = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+const mockDateHeader = (serverTimeMs: number) => {
+  (global as any).fetch = jest.fn().mockResolvedValue({
+    headers: {
+      get: (name: string) =>
+        name.toLowerCase() === 'date'
+          ? new Date(serverTimeMs).toUTCString()
+          : null,
+    },
+  });
+};
+
+describe('TimeSyncService', () => {
+  let timeSync: TimeSyncService;
+  let totpService: TOTPService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(DEVICE_NOW);
+    jest.spyOn(performance, 'now').mockReturnValue(0);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (TimeSyncService as any).instance = undefined;
+    (TOTPService as any).instance = undefined;
+    timeSync = TimeSyncService.getInstance();
+    totpService = TOTPService.getInstance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).fetch;
+  });
+
+  test('should place the server time at the middle of the round trip', () => {
+    const state = computeClockOffset(
+      { serverTimeMs: 10_600, sentAt: 1_000, receivedAt: 1_200 },
+      'firestore'
+    );
+
+    expect(state).toEqual({
+      offsetMs: 9_500,
+      roundTripMs: 200,
+      measuredAt: 1_200,
+      source: 'firestore',
+    });
+  });
+
+  test('should measure drift from the HTTP Date header and apply it', async () => {
+    mockDateHeader(DEVICE_NOW + 90_000);
+
+    const state = await timeSync.measure();
+
+    expect(state.source).toBe('http');
+    expect(state.offsetMs).toBe(90_500);
+    expect(totpService.getTimeSyncOffset()).toBe(90_500);
+    expect(totpService.now()).toBe(DEVICE_NOW + 90_500);
+    expect(totpService.isTimeSynchronized()).toBe(false);
+    expect(timeSync.isDrifted()).toBe(true);
+  });
+
+  test('should generate codes for the corrected time', async () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    const expected = totpService.generateAt(secret, {}, DEVICE_NOW + 120_500);
+    mockDateHeader(DEVICE_NOW + 120_000);
+
+    await timeSync.measure();
+
+    expect(totpService.generateTOTP(secret)).toBe(expected);
+  });
+
+  test('should prefer the Firestore probe and fall back to HTTP', async () => {
+    mockDateHeader(DEVICE_NOW);
+    const firestore = await timeSync.measure(async () => ({
+      serverTimeMs: DEVICE_NOW - 3_000,
+      sentAt: DEVICE_NOW,
+      receivedAt: DEVICE_NOW,
+    }));
+    expect(firestore.source).toBe('firestore');
+    expect(firestore.offsetMs).toBe(-3_000);
+    expect(timeSync.isDrifted()).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const http = await timeSync.measure(() =>
+      Promise.reject(new Error('Client is offline'))
+    );
+    expect(http.source).toBe('http');
+    expect(http.offsetMs).toBe(500);
+  });
+
+  test('should persist the offset and restore it on load', async () => {
+    mockDateHeader(DEVICE_NOW - 60_000);
+    await timeSync.measure();
+
+    (TimeSyncService as any).instance = undefined;
+    totpService.setTimeOffset(0);
+    const state = await TimeSyncService.getInstance().load();
+
+    expect(state?.offsetMs).toBe(-59_500);
+    expect(totpService.getTimeSyncOffset()).toBe(-59_500);
+  });
+
+  test('should only measure again once the offset is stale', async () => {
+    mockDateHeader(DEVICE_NOW + 30_000);
+    await timeSync.refresh();
+    await timeSync.refresh();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    (Date.now as jest.Mock).mockReturnValue(
+      DEVICE_NOW + TIME_SYNC.REFRESH_INTERVAL
+    );
+    (performance.now as jest.Mock).mockReturnValue(TIME_SYNC.REFRESH_INTERVAL);
+    await timeSync.refresh();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep the previous offset when measuring fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockDateHeader(DEVICE_NOW + 30_000);
+    await timeSync.measure();
+
+    (Date.now as jest.Mock).mockReturnValue(
+      DEVICE_NOW + TIME_SYNC.REFRESH_INTERVAL
+    );
+    (performance.now as jest.Mock).mockReturnValue(TIME_SYNC.REFRESH_INTERVAL);
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+    const state = await timeSync.refresh();
+
+    expect(state?.offsetMs).toBe(30_500);
+    expect(totpService.getTimeSyncOffset()).toBe(30_500);
+  });
+
+  test('should drop the offset once the device clock is changed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockDateHeader(DEVICE_NOW + 30_000);
+    await timeSync.refresh();
+
+    // The user fixes the clock a minute later
+    (Date.now as jest.Mock).mockReturnValue(DEVICE_NOW + 90_000);
+    (performance.now as jest.Mock).mockReturnValue(60_000);
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+    const state = await timeSync.refresh();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(state).toBeNull();
+    expect(totpService.getTimeSyncOffset()).toBe(0);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.TIME_SYNC)).toBeNull();
+  });
+
+  test('should measure again after loading a stored offset', async () => {
+    mockDateHeader(DEVICE_NOW + 30_000);
+    await timeSync.measure();
+
+    // The clock may have been changed while the app was not running
+    (TimeSyncService as any).instance = undefined;
+    const restarted = TimeSyncService.getInstance();
+    await restarted.load();
+    await restarted.refresh();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reset the offset on clear', async () => {
+    mockDateHeader(DEVICE_NOW + 30_000);
+    await timeSync.measure();
+    await timeSync.clear();
+
+    expect(timeSync.getState()).toBeNull();
+    expect(totpService.getTimeSyncOffset()).toBe(0);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.TIME_SYNC)).toBeNull();
+  });
+});
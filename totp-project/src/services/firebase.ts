@@ -113,6 +113,7 @@ export default app;
 export const COLLECTIONS = {
   USERS: 'users',
   ACCOUNTS: 'accounts',
+  TOMBSTONES: 'tombstones',
 } as const;
 
 // Security rules helper (for reference)
@@ -128,6 +129,11 @@ service cloud.firestore {
       match /accounts/{accountId} {
         allow read, write: if request.auth != null && request.auth.uid == userId;
       }
+
+      // Deletion tombstones subcollection
+      match /tombstones/{accountId} {
+        allow read, write: if request.auth != null && request.auth.uid == userId;
+      }
     }
   }
 }
@@ -7,6 +7,18 @@ export interface User {
   createdAt: Timestamp;
   lastLoginAt: Timestamp;
   preferences: UserPreferences;
+  vault?: VaultKeyInfo;
+  clockProbeAt?: Timestamp; // written by server clock measurements
+}
+
+// End-to-end sync vault parameters (stored in the user document)
+// Only the salt, verifier and wrapped data key ever leave the device
+export interface VaultKeyInfo {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64
+  verifier: string; // Base64 SHA-256 of the derived verification key
+  wrappedKey: string; // Data key sealed with the passphrase-derived key
 }
 
 export interface UserPreferences {
@@ -21,38 +33,183 @@ export interface TOTPAccount {
   userId: string;
   serviceName: string;
   accountName: string;
-  encryptedSecret: string; // AES encrypted
+  encryptedSecret: string; // AES-256-GCM envelope sealed with the sync key
+  encryptedPin?: string; // Yandex Key / mOTP only, sealed like the secret
   algorithm: 'SHA1' | 'SHA256' | 'SHA512';
   digits: 6 | 7 | 8;
   period: number; // seconds, typically 30
   iconUrl?: string;
+  type?: OTPType; // missing on accounts created before HOTP support
+  counter?: number; // HOTP only: next counter value to use
+  encoder?: CodeEncoder; // missing on accounts created before Steam support
+  ocraSuite?: string; // OCRA only, e.g. OCRA-1:HOTP-SHA1-6:QN08
+  timeOffsetSeconds?: number; // added to the clock for servers with skewed time
+  group?: string;
+  encryptedNotes?: string; // sealed like the secret
+  notes?: string; // plaintext notes of copies uploaded before they were sealed
+  revision?: number; // incremented on every write to detect concurrent edits
   createdAt: Timestamp;
   updatedAt: Timestamp;
   lastUsed?: Timestamp;
 }
 
+// One-time password family of an account
+export type OTPType = 'totp' | 'hotp' | 'yandex' | 'motp' | 'ocra';
+
+// How the truncated HMAC value is rendered as a code
+export type CodeEncoder = 'default' | 'steam';
+
 // Local storage types (decrypted for local use)
 export interface LocalTOTPAccount {
   id: string;
   serviceName: string;
   accountName: string;
   secret: string; // Decrypted for local use
+  pin?: string; // Yandex Key / mOTP only, encrypted at rest like the secret
   algorithm: string;
   digits: number;
   period: number;
   iconUrl?: string;
+  type?: OTPType; // treated as 'totp' when missing
+  counter?: number; // HOTP only: next counter value to use
+  encoder?: CodeEncoder; // treated as 'default' (decimal digits) when missing
+  ocraSuite?: string; // OCRA only, e.g. OCRA-1:HOTP-SHA1-6:QN08
+  timeOffsetSeconds?: number; // treated as 0 when missing
+  group?: string; // e.g. "Work", carried over from other authenticators
+  notes?: string;
   syncStatus: 'synced' | 'pending' | 'error';
   lastModified: number;
 }
 
+// Deletion marker kept so deletes propagate between devices during sync
+export interface AccountTombstone {
+  id: string; // id of the deleted account
+  deletedAt: number; // client timestamp in milliseconds
+  revision?: number; // cloud revision of the account that was deleted
+  syncStatus?: 'synced' | 'pending'; // local only: whether the cloud has it
+  updatedAt?: number; // cloud only: server write time in milliseconds
+}
+
+// Account fields that are synchronized and merged field by field
+export type SyncedAccountFields = Pick<
+  LocalTOTPAccount,
+  | 'serviceName'
+  | 'accountName'
+  | 'secret'
+  | 'pin'
+  | 'algorithm'
+  | 'digits'
+  | 'period'
+  | 'iconUrl'
+  | 'type'
+  | 'counter'
+  | 'encoder'
+  | 'ocraSuite'
+  | 'timeOffsetSeconds'
+  | 'group'
+  | 'notes'
+>;
+
+export type SyncedField = keyof SyncedAccountFields;
+
+// Last state this device and the cloud agreed on, used as the merge base
+export interface SyncAncestor {
+  id: string; // account id
+  revision: number; // cloud revision the fields were taken from
+  fields: Partial<SyncedAccountFields>; // missing when never agreed on
+}
+
+// A field that was changed differently on this device and in the cloud
+export interface FieldConflict {
+  field: SyncedField;
+  base?: SyncedAccountFields[SyncedField];
+  local: SyncedAccountFields[SyncedField];
+  cloud: SyncedAccountFields[SyncedField];
+}
+
+// Unresolved conflicts for one account, waiting for the user to decide
+export interface AccountConflict {
+  accountId: string;
+  cloudRevision: number;
+  fields: FieldConflict[];
+  detectedAt: number;
+}
+
+// Which side the user kept when resolving a conflicting field
+export type ConflictChoice = 'local' | 'cloud';
+
+// Owner of the incremental sync cursor stored on this device
+export interface SyncCursorState {
+  userId: string;
+  schemaVersion: number; // SYNC.SCHEMA_VERSION the cursor was recorded with
+}
+
+// Parsed OCRA suite (RFC 6287 section 6)
+export interface OCRASuite {
+  suite: string; // original suite string, part of every HMAC message
+  algorithm: 'SHA1' | 'SHA256' | 'SHA512';
+  digits: number;
+  counter: boolean; // C: includes an 8-byte counter
+  challengeFormat: 'A' | 'N' | 'H'; // alphanumeric, numeric or hex
+  challengeMaxLength: number;
+  pinHash?: 'SHA1' | 'SHA256' | 'SHA512'; // P: includes a hashed PIN
+  sessionLength?: number; // S: bytes of session information
+  timeStep?: number; // T: time step in seconds
+}
+
+// Inputs for one OCRA response; which are needed depends on the suite
+export interface OCRAInputs {
+  challenge: string;
+  counter?: number;
+  pin?: string;
+  session?: string; // hexadecimal
+  timestampMs?: number; // defaults to now
+}
+
+// Source of the current time in milliseconds since the epoch
+export type Clock = () => number;
+
+// One reading of a trusted clock, bracketed by device times (all in ms)
+export interface ClockSample {
+  serverTimeMs: number;
+  sentAt: number;
+  receivedAt: number;
+}
+
+// Measured difference between a trusted clock and the device clock
+export interface TimeSyncState {
+  offsetMs: number; // add to the device time to get the trusted time
+  roundTripMs: number;
+  measuredAt: number; // device time of the measurement
+  source: 'firestore' | 'http';
+}
+
 // TOTP generation options
 export interface TOTPOptions {
   algorithm?: 'SHA1' | 'SHA256' | 'SHA512';
   digits?: 6 | 7 | 8;
   period?: number;
   window?: number;
+  encoder?: CodeEncoder;
+  timeOffsetSeconds?: number; // added to the clock for servers with skewed time
 }
 
+// Text encodings a shared secret may be given in
+export type SecretEncoding = 'base32' | 'hex' | 'base64';
+
+// A secret decoded from user input and re-encoded as canonical Base32
+export interface NormalizedSecret {
+  secret: string; // unpadded uppercase Base32
+  encoding: SecretEncoding; // encoding the input was read as
+  bits: number;
+  isWeak: boolean; // shorter than the recommended length
+}
+
+// Code parameters recovered from observed codes
+export type TOTPParameters = Required<
+  Pick<TOTPOptions, 'algorithm' | 'digits' | 'period'>
+>;
+
 // TOTP code with metadata
 export interface TOTPCode {
   code: string;
@@ -95,7 +252,7 @@ export type RootStackParamList = {
 
 // QR Code parsing result
 export interface QRCodeResult {
-  type: 'totp' | 'hotp';
+  type: OTPType;
   label: string;
   secret: string;
   issuer?: string;
@@ -103,6 +260,22 @@ export interface QRCodeResult {
   digits?: number;
   period?: number;
   counter?: number;
+  encoder?: CodeEncoder;
+}
+
+// One QR code of a Google Authenticator "Transfer accounts" export
+export interface MigrationBatch {
+  batchId: number; // shared by every QR code of one export
+  batchIndex: number; // 0-based position of this QR code
+  batchSize: number; // number of QR codes in the export
+  entries: QRCodeResult[];
+  unsupported: string[]; // entries that cannot be imported, with the reason
+}
+
+// Google Authenticator export QR codes for a set of accounts
+export interface MigrationExport {
+  urls: string[]; // one otpauth-migration:// URL per QR code, in order
+  unsupported: string[]; // accounts left out, with the reason
 }
 
 // Sync status
@@ -27,6 +27,12 @@ export const TOTP_CONFIG = {
   SUPPORTED_DIGITS: [6, 7, 8],
   MIN_PERIOD: 15,
   MAX_PERIOD: 300,
+  HOTP_RESYNC_WINDOW: 100, // counters searched ahead when resynchronizing
+  MAX_TIME_OFFSET: 15 * 60, // largest per-account clock offset, in seconds either way
+  DETECTION_PERIODS: [30, 60, 15], // periods tried when detecting parameters
+  DETECTION_WINDOW: 2, // periods either side of now searched when detecting
+  MIN_SECRET_BITS: 80, // shortest secret accepted on input
+  RECOMMENDED_SECRET_BITS: 160, // RFC 4226 section 4
 } as const;
 
 // Security configuration
@@ -47,6 +53,29 @@ export const NETWORK = {
   OFFLINE_RETRY_INTERVAL: 30000, // 30 seconds
 } as const;
 
+// Sync configuration
+export const SYNC = {
+  TOMBSTONE_RETENTION: 30 * 24 * 60 * 60 * 1000, // 30 days
+  SCHEMA_VERSION: 1, // bump to force a full resync after a data model change
+  CURSOR_OVERLAP: 5000, // re-read changes this close to the cursor (ms)
+} as const;
+
+// Device clock drift detection
+export const TIME_SYNC = {
+  // Any server that sends a Date header works, including a local one
+  DEFAULT_ENDPOINT: 'https://www.google.com/generate_204',
+  DRIFT_WARNING_THRESHOLD: 10 * 1000, // 10 seconds
+  CLOCK_JUMP_THRESHOLD: 2 * 1000, // 2 seconds
+  REFRESH_INTERVAL: 6 * 60 * 60 * 1000, // 6 hours
+  REQUEST_TIMEOUT: 5000, // 5 seconds
+} as const;
+
+// Google Authenticator export QR codes
+export const GOOGLE_MIGRATION = {
+  MAX_PAYLOAD_BYTES: 600, // per QR code, before Base64; keeps codes easy to scan
+  PAYLOAD_VERSION: 1,
+} as const;
+
 // Storage keys
 export const STORAGE_KEYS = {
   USER_PREFERENCES: 'user_preferences',
@@ -55,6 +84,7 @@ export const STORAGE_KEYS = {
   APP_STATE: 'app_state',
   LAST_SYNC: 'last_sync',
   OFFLINE_QUEUE: 'offline_queue',
+  TIME_SYNC: 'time_sync',
 } as const;
 
 // Keychain service identifiers
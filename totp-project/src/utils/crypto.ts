@@ -0,0 +1,227 @@
+/**
+ * Cryptographic helpers shared by storage and sync
+ */
+import { gcm } from '@noble/ciphers/aes';
+import * as Crypto from 'expo-crypto';
+import { SECURITY } from './constants';
+
+// Current version of the ciphertext envelope format
+export const ENVELOPE_VERSION = 1;
+
+const GCM_NONCE_LENGTH = 12; // 96-bit nonce as recommended by NIST SP 800-38D
+const GCM_TAG_LENGTH = 16; // 128-bit authentication tag
+const AES_256_KEY_LENGTH = 32;
+
+/**
+ * Versioned envelope for AES-256-GCM ciphertexts
+ */
+export interface CipherEnvelope {
+  v: number;
+  alg: typeof SECURITY.ENCRYPTION_ALGORITHM;
+  nonce: string; // Base64
+  ct: string; // Base64
+  tag: string; // Base64
+}
+
+/**
+ * Converts bytes to a Base64 string
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Converts a Base64 string to bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Converts bytes to a lowercase hex string
+ */
+export const bytesToHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Converts a hex string to bytes
+ */
+export const hexToBytes = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Decodes an RFC 4648 Base32 string (padding and case are ignored)
+ */
+export const base32ToBytes = (base32: string): Uint8Array => {
+  const cleaned = base32.replace(/=+$/, '').toUpperCase();
+  const bytes = new Uint8Array(Math.floor((cleaned.length * 5) / 8));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid Base32 string');
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+};
+
+/**
+ * Encodes bytes as an unpadded RFC 4648 Base32 string
+ */
+export const bytesToBase32 = (bytes: Uint8Array): string => {
+  let result = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = (buffer << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      result += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return result;
+};
+
+/**
+ * Checks whether a string looks like a serialized cipher envelope
+ */
+export const isCipherEnvelope = (data: string): boolean => {
+  try {
+    const parsed = JSON.parse(data);
+    return (
+      parsed !== null &&
+      typeof parsed === 'object' &&
+      typeof parsed.v === 'number' &&
+      typeof parsed.alg === 'string'
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Encrypt a UTF-8 string with AES-256-GCM and serialize it as an envelope
+ */
+export const sealEnvelope = (key: Uint8Array, plaintext: string): string => {
+  if (key.length !== AES_256_KEY_LENGTH) {
+    throw new Error('AES-256-GCM requires a 256-bit key');
+  }
+
+  const nonce = Crypto.getRandomBytes(GCM_NONCE_LENGTH);
+  const sealed = gcm(key, nonce).encrypt(new TextEncoder().encode(plaintext));
+
+  // noble appends the tag to the ciphertext; store it separately
+  const envelope: CipherEnvelope = {
+    v: ENVELOPE_VERSION,
+    alg: SECURITY.ENCRYPTION_ALGORITHM,
+    nonce: bytesToBase64(nonce),
+    ct: bytesToBase64(sealed.subarray(0, sealed.length - GCM_TAG_LENGTH)),
+    tag: bytesToBase64(sealed.subarray(sealed.length - GCM_TAG_LENGTH)),
+  };
+
+  return JSON.stringify(envelope);
+};
+
+/**
+ * Decrypt and authenticate a serialized envelope
+ * Throws if the envelope is malformed, truncated or has been tampered with
+ */
+export const openEnvelope = (key: Uint8Array, data: string): string => {
+  if (key.length !== AES_256_KEY_LENGTH) {
+    throw new Error('AES-256-GCM requires a 256-bit key');
+  }
+
+  let envelope: CipherEnvelope;
+  try {
+    envelope = JSON.parse(data);
+  } catch {
+    throw new Error('Malformed cipher envelope');
+  }
+
+  if (envelope.v !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${envelope.v}`);
+  }
+  if (envelope.alg !== SECURITY.ENCRYPTION_ALGORITHM) {
+    throw new Error(`Unsupported envelope algorithm: ${envelope.alg}`);
+  }
+  if (
+    typeof envelope.nonce !== 'string' ||
+    typeof envelope.ct !== 'string' ||
+    typeof envelope.tag !== 'string'
+  ) {
+    throw new Error('Malformed cipher envelope');
+  }
+
+  const nonce = base64ToBytes(envelope.nonce);
+  const ciphertext = base64ToBytes(envelope.ct);
+  const tag = base64ToBytes(envelope.tag);
+
+  if (nonce.length !== GCM_NONCE_LENGTH || tag.length !== GCM_TAG_LENGTH) {
+    throw new Error('Malformed cipher envelope');
+  }
+
+  const sealed = new Uint8Array(ciphertext.length + tag.length);
+  sealed.set(ciphertext);
+  sealed.set(tag, ciphertext.length);
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = gcm(key, nonce).decrypt(sealed);
+  } catch {
+    throw new Error('Ciphertext authentication failed');
+  }
+
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * Compares two byte arrays in constant time
+ */
+export const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
@@ -9,6 +9,34 @@ export const delay = (ms: number): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
 };
 
+/**
+ * Rejects if a promise does not settle within the given number of milliseconds
+ */
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(
+      () => reject(new Error(`Operation timed out after ${ms}ms`)),
+      ms
+    );
+    promise.then(
+      value => {
+        clearTimeout(timeoutId);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timeoutId);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Check whether an error came from withTimeout giving up on a promise
+ */
+export const isTimeoutError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith('Operation timed out');
+
 /**
  * Generates a random ID string
  */
@@ -116,6 +144,16 @@ export const formatBytes = (bytes: number, decimals = 2): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
+/**
+ * Describes a clock offset (trusted time minus device time) for display
+ */
+export const formatClockDrift = (offsetMs: number): string => {
+  const seconds = Math.round(Math.abs(offsetMs) / 1000);
+  const amount =
+    seconds >= 120 ? `${Math.round(seconds / 60)} minutes` : `${seconds} seconds`;
+  return `${amount} ${offsetMs > 0 ? 'behind' : 'ahead'}`;
+};
+
 /**
  * Deep clones an object
  */